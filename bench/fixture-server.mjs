@@ -0,0 +1,51 @@
+// Local site for the HTTP benchmark. Started by http.mjs in a child process,
+// so the server and the client do not share an event loop.
+import http from 'node:http';
+
+const filler = (bytes) => '<p>' + 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(Math.ceil(bytes / 57)) + '</p>';
+
+const page = (title, bytes) =>
+  `<!DOCTYPE html><html><head><title>${title}</title><meta name="description" content="${title}"></head>` +
+  `<body><h1>${title}</h1>${filler(bytes)}</body></html>`;
+
+// Bodies are built once; the benchmark measures the client, not the server
+const bodies = {
+  page: page('Article', 30 * 1024),
+  missing: page('Page not found', 300 * 1024),
+  large: page('Large page', 2 * 1024 * 1024),
+};
+
+const server = http.createServer((req, res) => {
+  const [, kind] = req.url.split('/');
+  const headers = { 'Content-Type': 'text/html; charset=utf-8' };
+
+  switch (kind) {
+    case 'page':
+      res.writeHead(200, headers);
+      res.end(bodies.page);
+      break;
+    case 'close':
+      // Same page, but every response closes its connection
+      res.writeHead(200, { ...headers, Connection: 'close' });
+      res.end(bodies.page);
+      break;
+    case 'missing':
+      res.writeHead(404, headers);
+      res.end(bodies.missing);
+      break;
+    case 'large':
+      res.writeHead(200, headers);
+      res.end(bodies.large);
+      break;
+    default:
+      res.writeHead(404, headers);
+      res.end(page('Not found', 0));
+  }
+});
+
+server.keepAliveTimeout = 10000;
+server.listen(0, '127.0.0.1', () => {
+  process.send({ port: server.address().port });
+});
+
+process.on('disconnect', () => server.close(() => process.exit(0)));
@@ -0,0 +1,91 @@
+// HTTP layer benchmark against a local fixture server.
+//
+//   npm run bench -- [--requests 500] [--concurrency 10]
+//
+// Runs against the build in dist/, so build first (npm run bench does).
+import { fork } from 'node:child_process';
+import { parseArgs } from 'node:util';
+import pLimit from 'p-limit';
+import { configureHttpAgent, fetchUrl } from '../dist/utils/http.js';
+
+const { values } = parseArgs({
+  options: {
+    requests: { type: 'string', default: '500' },
+    concurrency: { type: 'string', default: '10' },
+  },
+});
+const requests = parseInt(values.requests, 10);
+const concurrency = parseInt(values.concurrency, 10);
+
+const scenarios = [
+  {
+    name: 'New connection per request',
+    path: '/close/',
+    options: {},
+  },
+  {
+    name: 'Keep-alive pool',
+    path: '/page/',
+    options: {},
+  },
+  {
+    name: '404 pages, full body',
+    path: '/missing/',
+    options: { fullBody: 'always' },
+  },
+  {
+    name: '404 pages, title only',
+    path: '/missing/',
+    options: { fullBody: 'success' },
+  },
+  {
+    name: '2 MB pages, full body',
+    path: '/large/',
+    options: {},
+    requests: Math.ceil(requests / 5),
+  },
+  {
+    name: '2 MB pages, 256 KB cap',
+    path: '/large/',
+    options: { maxBodySize: 256 * 1024 },
+    requests: Math.ceil(requests / 5),
+  },
+];
+
+const server = fork(new URL('./fixture-server.mjs', import.meta.url));
+const port = await new Promise(resolve => server.once('message', message => resolve(message.port)));
+const origin = `http://127.0.0.1:${port}`;
+
+console.log(`Fixture server: ${origin}`);
+console.log(`Requests per scenario: ${requests} (large pages: ${Math.ceil(requests / 5)}), concurrency: ${concurrency}\n`);
+
+const rows = [];
+for (const scenario of scenarios) {
+  // A fresh pool per scenario, so no scenario starts with warm connections
+  configureHttpAgent({ connections: concurrency });
+  const limit = pLimit(concurrency);
+  const count = scenario.requests ?? requests;
+
+  const start = process.hrtime.bigint();
+  const results = await Promise.all(
+    Array.from({ length: count }, (_, i) =>
+      limit(() => fetchUrl(`${origin}${scenario.path}${i}`, { retries: 0, ...scenario.options }))
+    )
+  );
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+  const failed = results.filter(r => r.error).length;
+  const bytes = results.reduce((total, r) => total + r.body.length, 0);
+  rows.push({
+    scenario: scenario.name,
+    requests: count,
+    failed,
+    'req/s': Math.round(count / seconds),
+    'ms/req': ((seconds * 1000) / count).toFixed(2),
+    'MB read': (bytes / 1024 / 1024).toFixed(1),
+  });
+}
+
+console.table(rows);
+server.disconnect();
+process.exit(0);
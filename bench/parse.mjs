@@ -0,0 +1,80 @@
+// HTML parsing benchmark on generated pages.
+//
+//   npm run bench:parse -- [--pages 50] [--workers 2]
+//
+// Runs against the build in dist/, so build first (npm run bench:parse does).
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+import { parseHtml } from '../dist/utils/html-parser.js';
+import { parseHtmlStream } from '../dist/utils/html-stream-parser.js';
+import { PageAnalyzer } from '../dist/utils/page-analysis.js';
+
+const { values } = parseArgs({
+  options: {
+    pages: { type: 'string', default: '50' },
+    workers: { type: 'string', default: '2' },
+  },
+});
+const pages = parseInt(values.pages, 10);
+const workers = parseInt(values.workers, 10);
+const baseUrl = 'https://example.com/';
+
+const paragraph = '<p>Lorem ipsum dolor sit amet, <a href="/articles/consectetur">consectetur</a> adipiscing elit.</p>';
+const page = (bytes) =>
+  '<!DOCTYPE html><html><head><title>Article</title><meta name="description" content="Article">' +
+  '<script>window.analytics = {};</script></head><body><h1>Article</h1>' +
+  paragraph.repeat(Math.ceil(bytes / paragraph.length)) + '</body></html>';
+
+const sizes = [
+  { name: '30 KB', html: page(30 * 1024) },
+  { name: '300 KB', html: page(300 * 1024) },
+  { name: '2 MB', html: page(2 * 1024 * 1024) },
+];
+
+console.log(`Pages per scenario: ${pages}, workers: ${workers}\n`);
+
+// Parser speed, in the main thread
+const parserRows = [];
+for (const { name, html } of sizes) {
+  const row = { page: name };
+  for (const [parser, parse] of [['dom', parseHtml], ['stream', parseHtmlStream]]) {
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < pages; i++) {
+      parse(html, baseUrl);
+    }
+    row[`${parser} ms/page`] = (Number(process.hrtime.bigint() - start) / 1e6 / pages).toFixed(2);
+  }
+  parserRows.push(row);
+}
+console.table(parserRows);
+
+// Event loop blocking while pages are parsed, with and without workers
+const html = sizes[1].html;
+const poolRows = [];
+for (const poolSize of [0, workers]) {
+  const analyzer = new PageAnalyzer({ workers: poolSize });
+
+  // Longest gap between ticks of a 1ms timer
+  let lastTick = performance.now();
+  let maxGap = 0;
+  const timer = setInterval(() => {
+    const now = performance.now();
+    maxGap = Math.max(maxGap, now - lastTick);
+    lastTick = now;
+  }, 1);
+
+  const start = process.hrtime.bigint();
+  await Promise.all(Array.from({ length: pages }, () => analyzer.analyze(html, { baseUrl, parser: 'dom' })));
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+  // Let the timer tick once more, so a block at the end is counted
+  await sleep(5);
+  clearInterval(timer);
+  await analyzer.close();
+  poolRows.push({
+    scenario: poolSize === 0 ? 'Main thread' : `${poolSize} worker(s)`,
+    'pages/s': Math.round(pages / seconds),
+    'max event loop delay ms': maxGap.toFixed(1),
+  });
+}
+console.table(poolRows);
@@ -0,0 +1,309 @@
+import chalk from 'chalk';
+import fse from 'fs-extra';
+import type {
+  CompareConfig,
+  CompareMatch,
+  CompareReport,
+  CompareSummary,
+  CrawlerOutput,
+  DirectoryRollup,
+  PrefixRewrite,
+} from './types/index.js';
+import { crawl, generateOutputFilename } from './crawler.js';
+import { isInternalLink } from './utils/html-parser.js';
+import { isSuccessStatus } from './utils/http.js';
+
+/**
+ * Number of directories and paths shown per section without verbose
+ */
+const MAX_ENTRIES_SHOWN = 15;
+
+/**
+ * Crawls (or loads) both sites and aligns their pages by path, reporting
+ * source-only, destination-only and matched pages with per-directory rollups
+ */
+export async function compareSites(config: CompareConfig): Promise<CompareReport> {
+  const log = config.verbose ? console.log : () => {};
+
+  console.log(chalk.blue('Source:'), config.sourceUrl);
+  const source = await loadOrCrawl('source', config.sourceUrl, config.sourceCrawlPath, config);
+  console.log(chalk.blue('Destination:'), config.destinationUrl);
+  const destination = await loadOrCrawl('destination', config.destinationUrl, config.destinationCrawlPath, config);
+
+  const sourcePaths = pagePaths(source.output);
+  const destinationPaths = pagePaths(destination.output);
+  const destinationSet = new Set(destinationPaths);
+
+  log(chalk.blue('Source pages:'), sourcePaths.length);
+  log(chalk.blue('Destination pages:'), destinationPaths.length);
+  if (config.rewrites.length > 0) {
+    log(chalk.blue('Rewrites:'), config.rewrites.map(formatRewrite).join(', '));
+  }
+
+  // Align each source path: rewritten path first, then the identical path
+  const matched: CompareMatch[] = [];
+  const sourceOnly: string[] = [];
+  for (const sourcePath of sourcePaths) {
+    const rewritten = rewritePath(sourcePath, config.rewrites);
+
+    if (rewritten && destinationSet.has(rewritten.path)) {
+      matched.push({ sourcePath, destinationPath: rewritten.path, rewrite: formatRewrite(rewritten.rewrite) });
+    } else if (destinationSet.has(sourcePath)) {
+      matched.push({ sourcePath, destinationPath: sourcePath, rewrite: null });
+    } else {
+      sourceOnly.push(sourcePath);
+    }
+  }
+
+  const matchedDestinations = new Set(matched.map(m => m.destinationPath));
+  const destinationOnly = destinationPaths.filter(p => !matchedDestinations.has(p));
+
+  const sourceDirectories = rollup(sourcePaths, new Set(matched.map(m => m.sourcePath)), config.rollupDepth);
+  const destinationDirectories = rollup(destinationPaths, matchedDestinations, config.rollupDepth);
+
+  const summary: CompareSummary = {
+    sourcePages: sourcePaths.length,
+    destinationPages: destinationPaths.length,
+    matched: matched.length,
+    sourceOnly: sourceOnly.length,
+    destinationOnly: destinationOnly.length,
+    missingSourceDirectories: sourceDirectories.filter(d => d.matched === 0).length,
+  };
+
+  const report: CompareReport = {
+    sourceUrl: config.sourceUrl,
+    destinationUrl: config.destinationUrl,
+    sourceCrawlPath: source.path,
+    destinationCrawlPath: destination.path,
+    summary,
+    matched,
+    sourceOnly,
+    destinationOnly,
+    sourceDirectories,
+    destinationDirectories,
+    comparedAt: new Date().toISOString(),
+    config,
+  };
+
+  await fse.writeJson(config.outputPath, report, { spaces: 2 });
+
+  printSummary(report, config);
+
+  return report;
+}
+
+/**
+ * Loads an existing crawl, or crawls the site with the shared crawler settings
+ */
+async function loadOrCrawl(
+  role: 'source' | 'destination',
+  siteUrl: string,
+  crawlPath: string | undefined,
+  config: CompareConfig
+): Promise<{ output: CrawlerOutput; path: string }> {
+  if (crawlPath) {
+    const output: CrawlerOutput = await fse.readJson(crawlPath);
+    if (!Array.isArray(output.urls)) {
+      throw new Error(`Not a crawler output file: ${crawlPath}`);
+    }
+    console.log(chalk.gray(`Using existing crawl: ${crawlPath} (${output.urls.length} URLs)`));
+    return { output, path: crawlPath };
+  }
+
+  // Suffixed so two crawls of one host (e.g. different ports) never share a file
+  const outputPath = generateOutputFilename(siteUrl).replace(/\.json$/, `-${role}.json`);
+  const output = await crawl({ ...config.crawl, sourceUrl: siteUrl, outputPath });
+  return { output, path: outputPath };
+}
+
+/**
+ * Normalized paths of the pages a crawl found on its own site (2xx only).
+ * The site is matched like the crawler does, so www and the bare host are
+ * the same site.
+ */
+function pagePaths(output: CrawlerOutput): string[] {
+  const pages = output.urls.filter(u => isSuccessStatus(u.statusCode));
+  const onSite = pages.filter(u => isInternalLink(u.url, output.sourceUrl));
+  if (onSite.length < pages.length) {
+    console.log(chalk.yellow(
+      `Ignoring ${pages.length - onSite.length} of ${pages.length} pages not on ${output.sourceUrl}`
+    ));
+  }
+  return [...new Set(onSite.map(u => normalizePath(u.path)))];
+}
+
+/**
+ * Removes the trailing slash from a path (except the root)
+ */
+function normalizePath(path: string): string {
+  const [pathname, query] = splitQuery(path);
+  const trimmed = pathname.length > 1 && pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+  return trimmed + query;
+}
+
+/**
+ * Splits a path into pathname and query string (with its "?")
+ */
+function splitQuery(path: string): [string, string] {
+  const index = path.indexOf('?');
+  return index === -1 ? [path, ''] : [path.slice(0, index), path.slice(index)];
+}
+
+/**
+ * Applies the first rewrite whose prefix matches the path at a segment
+ * boundary ("/blog" matches "/blog/post" but not "/blogger").
+ * "/blog" counts as matching "/blog/" since paths are stored without trailing slash.
+ */
+function rewritePath(
+  path: string,
+  rewrites: PrefixRewrite[]
+): { path: string; rewrite: PrefixRewrite } | null {
+  const [pathname, query] = splitQuery(path);
+  const withSlash = pathname.endsWith('/') ? path : `${pathname}/${query}`;
+  for (const rewrite of rewrites) {
+    const target = hasPrefix(path, rewrite.from) ? path : hasPrefix(withSlash, rewrite.from) ? withSlash : null;
+    if (target !== null) {
+      return { path: normalizePath(rewrite.to + target.slice(rewrite.from.length)), rewrite };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether a path starts with a prefix that ends at a segment boundary
+ */
+function hasPrefix(path: string, prefix: string): boolean {
+  if (!path.startsWith(prefix)) {
+    return false;
+  }
+  const next = path.charAt(prefix.length);
+  return prefix.endsWith('/') || next === '' || next === '/' || next === '?';
+}
+
+/**
+ * Formats a rewrite as "from=to"
+ */
+function formatRewrite(rewrite: PrefixRewrite): string {
+  return `${rewrite.from}=${rewrite.to}`;
+}
+
+/**
+ * Parses "from=to" prefix rewrites
+ */
+export function parsePrefixRewrites(values: string[]): PrefixRewrite[] {
+  return values.map(value => {
+    const index = value.indexOf('=');
+    const from = index === -1 ? '' : value.slice(0, index).trim();
+    const to = index === -1 ? '' : value.slice(index + 1).trim();
+    if (!from.startsWith('/') || !to.startsWith('/')) {
+      throw new Error(`Invalid rewrite "${value}" (expected /old-prefix/=/new-prefix/)`);
+    }
+    return { from, to };
+  });
+}
+
+/**
+ * Directory a path belongs to: its first `depth` segments ("/" for the root)
+ */
+function directoryOf(path: string, depth: number): string {
+  const segments = splitQuery(path)[0].split('/').filter(Boolean).slice(0, depth);
+  return segments.length > 0 ? `/${segments.join('/')}/` : '/';
+}
+
+/**
+ * Rolls up matched and unmatched pages per directory, least covered first
+ */
+function rollup(paths: string[], matched: Set<string>, depth: number): DirectoryRollup[] {
+  const directories = new Map<string, { total: number; matched: number }>();
+  for (const path of paths) {
+    const directory = directoryOf(path, depth);
+    const counts = directories.get(directory) ?? { total: 0, matched: 0 };
+    counts.total++;
+    if (matched.has(path)) {
+      counts.matched++;
+    }
+    directories.set(directory, counts);
+  }
+
+  return [...directories.entries()]
+    .map(([directory, counts]) => ({
+      directory,
+      total: counts.total,
+      matched: counts.matched,
+      unmatched: counts.total - counts.matched,
+      coverage: counts.matched / counts.total,
+    }))
+    .sort((a, b) =>
+      a.coverage - b.coverage ||
+      b.unmatched - a.unmatched ||
+      a.directory.localeCompare(b.directory)
+    );
+}
+
+/**
+ * Prints a directory rollup table
+ */
+function printRollup(title: string, rollups: DirectoryRollup[], verbose: boolean): void {
+  const uncovered = rollups.filter(d => d.unmatched > 0);
+  if (uncovered.length === 0) return;
+
+  console.log('');
+  console.log(chalk.bold(`${title} (${uncovered.length}):`));
+  const maxToShow = verbose ? uncovered.length : Math.min(uncovered.length, MAX_ENTRIES_SHOWN);
+  for (const d of uncovered.slice(0, maxToShow)) {
+    const color = d.matched === 0 ? chalk.red : chalk.yellow;
+    console.log(
+      color(`  ${d.directory}`),
+      chalk.gray(`${d.matched}/${d.total} matched (${Math.round(d.coverage * 100)}%), ${d.unmatched} unmatched`)
+    );
+  }
+  if (uncovered.length > maxToShow) {
+    console.log(chalk.gray(`  ... and ${uncovered.length - maxToShow} more (use -v to see all)`));
+  }
+}
+
+/**
+ * Prints summary to console
+ */
+function printSummary(report: CompareReport, config: CompareConfig): void {
+  const { summary } = report;
+
+  console.log('');
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.blue.bold('Comparison Complete'));
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.white('Source pages:'), summary.sourcePages);
+  console.log(chalk.white('Destination pages:'), summary.destinationPages);
+  console.log(chalk.green('Matched:'), summary.matched);
+  console.log(chalk.red('Source only (not migrated):'), summary.sourceOnly);
+  console.log(chalk.yellow('Destination only (no source):'), summary.destinationOnly);
+  console.log(chalk.red('Source directories with nothing migrated:'), summary.missingSourceDirectories);
+  console.log('');
+  console.log(chalk.blue('Report:'), config.outputPath);
+  console.log(chalk.blue('═'.repeat(60)));
+
+  printRollup('Source directories not fully migrated', report.sourceDirectories, config.verbose);
+  printRollup('Destination directories with pages not on the source', report.destinationDirectories, config.verbose);
+
+  if (config.verbose) {
+    for (const [title, paths] of [
+      ['Source-only pages', report.sourceOnly],
+      ['Destination-only pages', report.destinationOnly],
+    ] as const) {
+      if (paths.length === 0) continue;
+      console.log('');
+      console.log(chalk.bold(`${title} (${paths.length}):`));
+      for (const path of paths) {
+        console.log(chalk.gray(`  ${path}`));
+      }
+    }
+  }
+}
+
+/**
+ * Generates a default output filename based on timestamp
+ */
+export function generateCompareReportFilename(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `compare-report-${timestamp}.json`;
+}
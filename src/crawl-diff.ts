@@ -0,0 +1,217 @@
+import chalk from 'chalk';
+import fse from 'fs-extra';
+import type {
+  CrawlDiff,
+  CrawlDiffConfig,
+  CrawlDiffEntry,
+  CrawlDiffField,
+  CrawledUrl,
+  CrawlerOutput,
+} from './types/index.js';
+import { isSuccessStatus } from './utils/http.js';
+
+/**
+ * Fields compared between crawls, in display order
+ */
+const COMPARED_FIELDS: CrawlDiffField[] = ['statusCode', 'title', 'depth'];
+
+/**
+ * Number of entries shown per section without verbose
+ */
+const MAX_ENTRIES_SHOWN = 20;
+
+/**
+ * Compares two crawls of the same site, prints the differences and writes
+ * the requested diff and derived crawl files
+ */
+export async function diffCrawls(config: CrawlDiffConfig): Promise<CrawlDiff> {
+  const oldCrawl = await loadCrawlerOutput(config.oldPath);
+  const newCrawl = await loadCrawlerOutput(config.newPath);
+
+  if (new URL(oldCrawl.sourceUrl).origin !== new URL(newCrawl.sourceUrl).origin) {
+    console.log(chalk.yellow('Warning: crawls are of different sites:'), oldCrawl.sourceUrl, 'vs', newCrawl.sourceUrl);
+  }
+
+  const diff = compareCrawls(oldCrawl, newCrawl, config.oldPath, config.newPath);
+
+  if (config.jsonPath) {
+    await fse.writeJson(config.jsonPath, diff, { spaces: 2 });
+  }
+
+  // The merged crawl keeps URLs that disappeared from the source since the old crawl
+  if (config.mergedPath) {
+    const newPaths = new Set(newCrawl.urls.map(u => u.path));
+    const merged = [...newCrawl.urls, ...oldCrawl.urls.filter(u => !newPaths.has(u.path))];
+    await fse.writeJson(config.mergedPath, deriveCrawl(newCrawl, merged), { spaces: 2 });
+  }
+
+  if (config.newOnlyPath) {
+    const wanted = new Set(
+      diff.entries
+        .filter(e => e.change === 'added' || (config.includeChanged && e.change === 'changed'))
+        .map(e => e.path)
+    );
+    const newOnly = newCrawl.urls.filter(u => wanted.has(u.path));
+    await fse.writeJson(config.newOnlyPath, deriveCrawl(newCrawl, newOnly), { spaces: 2 });
+  }
+
+  printDiff(diff, config);
+
+  return diff;
+}
+
+/**
+ * Loads a crawler output file
+ */
+async function loadCrawlerOutput(crawlPath: string): Promise<CrawlerOutput> {
+  const crawl: CrawlerOutput = await fse.readJson(crawlPath);
+  if (!crawl.sourceUrl || !Array.isArray(crawl.urls)) {
+    throw new Error(`Not a crawler output file: ${crawlPath}`);
+  }
+  return crawl;
+}
+
+/**
+ * Matches URLs by path and classifies what changed
+ */
+function compareCrawls(
+  oldCrawl: CrawlerOutput,
+  newCrawl: CrawlerOutput,
+  oldPath: string,
+  newPath: string
+): CrawlDiff {
+  const oldUrls = new Map(oldCrawl.urls.map(u => [u.path, u]));
+  const newUrls = new Map(newCrawl.urls.map(u => [u.path, u]));
+
+  const entries: CrawlDiffEntry[] = [];
+  let unchanged = 0;
+
+  for (const [path, newUrl] of newUrls) {
+    const oldUrl = oldUrls.get(path);
+    if (!oldUrl) {
+      entries.push({ path, change: 'added', changedFields: [], old: null, new: pick(newUrl) });
+      continue;
+    }
+    const changedFields = COMPARED_FIELDS.filter(field => oldUrl[field] !== newUrl[field]);
+    if (changedFields.length > 0) {
+      entries.push({ path, change: 'changed', changedFields, old: pick(oldUrl), new: pick(newUrl) });
+    } else {
+      unchanged++;
+    }
+  }
+
+  for (const [path, oldUrl] of oldUrls) {
+    if (!newUrls.has(path)) {
+      entries.push({ path, change: 'removed', changedFields: [], old: pick(oldUrl), new: null });
+    }
+  }
+
+  const changeOrder = { added: 0, removed: 1, changed: 2 };
+  entries.sort((a, b) => changeOrder[a.change] - changeOrder[b.change] || a.path.localeCompare(b.path));
+
+  const count = (change: CrawlDiffEntry['change']) => entries.filter(e => e.change === change).length;
+
+  return {
+    old: { path: oldPath, sourceUrl: oldCrawl.sourceUrl, crawledAt: oldCrawl.crawledAt, totalUrls: oldCrawl.urls.length },
+    new: { path: newPath, sourceUrl: newCrawl.sourceUrl, crawledAt: newCrawl.crawledAt, totalUrls: newCrawl.urls.length },
+    counts: { added: count('added'), removed: count('removed'), changed: count('changed'), unchanged },
+    entries,
+    diffedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Picks the compared fields of a crawled URL
+ */
+function pick(url: CrawledUrl): Pick<CrawledUrl, CrawlDiffField> {
+  return { statusCode: url.statusCode, title: url.title, depth: url.depth };
+}
+
+/**
+ * Builds a crawler output for a subset of URLs, based on the newer crawl.
+ * URL counts are recomputed; other stats are those of the newer crawl.
+ */
+function deriveCrawl(base: CrawlerOutput, urls: CrawledUrl[]): CrawlerOutput {
+  const successfulCrawls = urls.filter(u => isSuccessStatus(u.statusCode)).length;
+  return {
+    ...base,
+    urls,
+    stats: {
+      ...base.stats,
+      totalUrls: urls.length,
+      successfulCrawls,
+      failedCrawls: urls.length - successfulCrawls,
+    },
+  };
+}
+
+/**
+ * Describes how a changed entry's fields differ
+ */
+function describeChange(entry: CrawlDiffEntry): string {
+  return entry.changedFields
+    .map(field => `${field}: ${formatValue(entry.old?.[field])} → ${formatValue(entry.new?.[field])}`)
+    .join(', ');
+}
+
+/**
+ * Formats a compared field value for display
+ */
+function formatValue(value: string | number | null | undefined): string {
+  return typeof value === 'string' ? `"${value}"` : String(value ?? null);
+}
+
+/**
+ * Prints the diff to console
+ */
+function printDiff(diff: CrawlDiff, config: CrawlDiffConfig): void {
+  console.log('');
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.blue.bold('Crawl Diff'));
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.white('Old:'), diff.old.path, chalk.gray(`(${diff.old.totalUrls} URLs, ${diff.old.crawledAt})`));
+  console.log(chalk.white('New:'), diff.new.path, chalk.gray(`(${diff.new.totalUrls} URLs, ${diff.new.crawledAt})`));
+  console.log('');
+  console.log(chalk.green('Added:'), diff.counts.added);
+  console.log(chalk.red('Removed:'), diff.counts.removed);
+  console.log(chalk.yellow('Changed:'), diff.counts.changed);
+  console.log(chalk.white('Unchanged:'), diff.counts.unchanged);
+  console.log(chalk.blue('═'.repeat(60)));
+
+  const sections: Array<{ title: string; change: CrawlDiffEntry['change']; color: (text: string) => string }> = [
+    { title: 'Added', change: 'added', color: chalk.green },
+    { title: 'Removed', change: 'removed', color: chalk.red },
+    { title: 'Changed', change: 'changed', color: chalk.yellow },
+  ];
+
+  for (const section of sections) {
+    const entries = diff.entries.filter(e => e.change === section.change);
+    if (entries.length === 0) continue;
+    console.log('');
+    console.log(chalk.bold(`${section.title} (${entries.length}):`));
+    const maxToShow = config.verbose ? entries.length : Math.min(entries.length, MAX_ENTRIES_SHOWN);
+    for (const entry of entries.slice(0, maxToShow)) {
+      const details = entry.change === 'changed'
+        ? describeChange(entry)
+        : `[${(entry.new ?? entry.old)!.statusCode}] ${(entry.new ?? entry.old)!.title ?? ''}`;
+      console.log(section.color(`  ${entry.path}`), chalk.gray(details));
+    }
+    if (entries.length > maxToShow) {
+      console.log(chalk.gray(`  ... and ${entries.length - maxToShow} more (use -v to see all)`));
+    }
+  }
+
+  const outputs: Array<[string, string | undefined]> = [
+    ['JSON diff:', config.jsonPath],
+    ['Merged crawl:', config.mergedPath],
+    ['New-only crawl:', config.newOnlyPath],
+  ];
+  if (outputs.some(([, path]) => path)) {
+    console.log('');
+  }
+  for (const [label, path] of outputs) {
+    if (path) {
+      console.log(chalk.blue(label), path);
+    }
+  }
+}
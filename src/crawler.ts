@@ -2,145 +2,322 @@ import chalk from 'chalk';
 import fse from 'fs-extra';
 import type {
   CrawledUrl,
+  CrawlCheckpoint,
   CrawlerConfig,
   CrawlerOutput,
+  CrawlQueueItem,
   CrawlStats,
+  DiscoverySource,
 } from './types/index.js';
-import { fetchUrl, fetchUrlWithFlareSolverr, sleep, isSuccessStatus } from './utils/http.js';
-import { parseHtml, getUrlPath, getDomain } from './utils/html-parser.js';
+import { configureHttpAgent, fetchUrl, fetchUrlWithFlareSolverr, sleep, isSuccessStatus } from './utils/http.js';
+import { getUrlPath, getDomain, isInternalLink } from './utils/html-parser.js';
+import { PageAnalyzer } from './utils/page-analysis.js';
+import { discoverSitemapUrls } from './utils/sitemap.js';
+import { fetchRobotsPolicy, type RobotsPolicy } from './utils/robots.js';
 import { createLimiter, ProgressTracker, formatDuration } from './utils/concurrency.js';
+import { HostScheduler } from './utils/scheduler.js';
+import { getCheckpointPath, writeJsonAtomic } from './utils/checkpoint.js';
+import { describeAuth, redactAuth, resolveAuth, type RequestAuth } from './utils/auth.js';
+import { describeResolveOverrides } from './utils/resolve.js';
+import { getCookies } from './utils/cookies.js';
 
 /**
- * Crawls a website starting from the source URL
+ * Version of the crawl checkpoint format
  */
-export async function crawl(config: CrawlerConfig): Promise<CrawlerOutput> {
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * Crawls a website starting from the source URL.
+ * When a checkpoint is given, the crawl continues from the saved state.
+ */
+export async function crawl(
+  config: CrawlerConfig,
+  checkpoint?: CrawlCheckpoint
+): Promise<CrawlerOutput> {
   const startTime = Date.now();
   const log = config.verbose ? console.log : () => {};
+  const checkpointPath = getCheckpointPath(config.outputPath);
 
-  log(chalk.blue('Starting crawl of:'), chalk.green(config.sourceUrl));
+  log(chalk.blue(checkpoint ? 'Resuming crawl of:' : 'Starting crawl of:'), chalk.green(config.sourceUrl));
   log(chalk.blue('Max depth:'), config.maxDepth);
   log(chalk.blue('Concurrency:'), config.concurrency);
+  if (config.http2) {
+    log(chalk.blue('HTTP/2:'), 'enabled');
+  }
+  if (config.maxRequestsPerSecond) {
+    log(chalk.blue('Max requests per second per host:'), config.maxRequestsPerSecond);
+  }
   log(chalk.blue('Renderer:'), config.renderer === 'flaresolverr'
     ? chalk.magenta('FlareSolverr (JavaScript rendering)')
     : chalk.gray('Static (HTML only)'));
   if (config.renderer === 'flaresolverr' && config.flaresolverrUrl) {
     log(chalk.blue('FlareSolverr URL:'), config.flaresolverrUrl);
   }
+  log(chalk.blue('Sitemap discovery:'), config.useSitemap ? 'enabled' : 'disabled');
+  log(chalk.blue('robots.txt:'), config.respectRobots ? 'respected' : 'ignored');
+  log(chalk.blue('Content fingerprints:'), config.fingerprint ? 'enabled' : 'disabled');
+  log(chalk.blue('HTML parser:'), `${config.parser ?? 'auto'}` +
+    (config.parseWorkers ? `, ${config.parseWorkers} worker thread(s)` : ''));
+  if (config.auth) {
+    log(chalk.blue('Auth:'), describeAuth(config.auth));
+  }
+  if (config.resolve && config.resolve.length > 0) {
+    log(chalk.blue('Resolve:'), describeResolveOverrides(config.resolve));
+  }
+  log(chalk.blue('Checkpoint:'), checkpointPath);
   log('');
 
+  // Connection pool for the whole crawl; hostnames are pinned before any connection is made
+  configureHttpAgent({ connections: config.concurrency, http2: config.http2, resolve: config.resolve });
+  if (config.resolve && config.resolve.length > 0 && config.renderer === 'flaresolverr') {
+    console.log(chalk.yellow('FlareSolverr resolves page hostnames itself; --resolve only applies to requests made by this tool'));
+  }
+
+  // Log in and prepare credentials before the first request
+  const auth = await resolveAuth(config.auth, config.sourceUrl, config.timeout);
+  if (auth && config.renderer === 'flaresolverr' && Object.keys(auth.headers).length > 0) {
+    console.log(chalk.yellow('FlareSolverr only forwards cookies; auth headers are not sent with page requests'));
+  }
+
+  // Load robots.txt policy (Crawl-delay spaces out requests to the host)
+  let robots: RobotsPolicy | null = null;
+  let maxRequestsPerSecond = config.maxRequestsPerSecond ?? 0;
+  if (config.respectRobots) {
+    robots = await fetchRobotsPolicy(config.sourceUrl, { timeout: config.timeout, auth });
+    if (!robots.found) {
+      log(chalk.gray('No robots.txt found, crawling everything'));
+    } else if (robots.crawlDelayMs) {
+      const crawlDelayRate = 1000 / robots.crawlDelayMs;
+      maxRequestsPerSecond = maxRequestsPerSecond > 0 ? Math.min(maxRequestsPerSecond, crawlDelayRate) : crawlDelayRate;
+      log(chalk.blue('Crawl-delay from robots.txt:'), `${robots.crawlDelayMs}ms`);
+    }
+  }
+
+  // Per-host pacing and backoff for page requests
+  const scheduler = new HostScheduler({
+    concurrency: config.concurrency,
+    maxRequestsPerSecond,
+    logger: message => console.log(chalk.yellow(message)),
+  });
+
+  // Each page is parsed once, in worker threads when configured
+  const analyzer = new PageAnalyzer({ workers: config.parseWorkers ?? 0 });
+
   // Parse exclude patterns
   const excludePatterns = config.excludePatterns.map(p => new RegExp(p, 'i'));
 
   // Track visited URLs to avoid re-crawling
-  const visited = new Set<string>();
-  const crawledUrls: CrawledUrl[] = [];
+  const visited = new Set<string>(checkpoint?.visited);
+
+  // Crawled pages with the normalized URL that was requested for each
+  const crawled: CrawlCheckpoint['crawled'] = checkpoint?.crawled ?? [];
 
-  // BFS queue: [url, depth, discoveredFrom]
-  const queue: Array<{ url: string; depth: number; discoveredFrom: string | null }> = [
+  // Normalized URLs reached through links (the root counts as linked)
+  const linkedUrls = new Set<string>(checkpoint?.linkedUrls ?? [normalizeUrl(config.sourceUrl)]);
+  // Normalized URLs listed in the site's sitemaps
+  const sitemapUrls = new Set<string>(checkpoint?.sitemapUrls);
+
+  // BFS queue
+  const queue: CrawlQueueItem[] = checkpoint?.queue ?? [
     { url: normalizeUrl(config.sourceUrl), depth: 0, discoveredFrom: null },
   ];
 
+  // Seed the queue with sitemap URLs (one hop from the root)
+  if (config.useSitemap && !checkpoint) {
+    const sitemap = await discoverSitemapUrls(config.sourceUrl, {
+      timeout: config.timeout,
+      log: (...args) => log(chalk.gray(...args)),
+      auth,
+      maxBodySize: config.maxBodySize,
+    });
+
+    for (const entry of sitemap.urls) {
+      if (!isInternalLink(entry.loc, config.sourceUrl)) continue;
+      const normalizedLoc = normalizeUrl(entry.loc);
+      if (sitemapUrls.has(normalizedLoc)) continue;
+      sitemapUrls.add(normalizedLoc);
+      queue.push({ url: normalizedLoc, depth: 1, discoveredFrom: entry.sitemap });
+    }
+
+    console.log(
+      chalk.blue(`Sitemap: ${sitemapUrls.size} URLs from ${sitemap.sitemaps.length} sitemap file(s)`)
+    );
+  }
+
   // Stats tracking
-  let skippedDueToDepth = 0;
-  let skippedDueToExclude = 0;
-  let successfulCrawls = 0;
-  let failedCrawls = 0;
+  let skippedDueToDepth = checkpoint?.skippedDueToDepth ?? 0;
+  let skippedDueToExclude = checkpoint?.skippedDueToExclude ?? 0;
+  const blockedByRobots = new Set<string>(checkpoint?.blockedByRobots);
+  let successfulCrawls = crawled.filter(c => isSuccessStatus(c.crawledUrl.statusCode)).length;
+  let failedCrawls = crawled.length - successfulCrawls;
+
+  // Time spent and throttling seen in earlier sessions of a resumed crawl
+  const previousElapsedMs = checkpoint?.elapsedMs ?? 0;
+  const previousThrottled = checkpoint?.throttledRequests ?? 0;
+
+  const saveCheckpoint = async () => {
+    const state: CrawlCheckpoint = {
+      version: CHECKPOINT_VERSION,
+      config: { ...config, auth: redactAuth(config.auth) },
+      savedAt: new Date().toISOString(),
+      elapsedMs: previousElapsedMs + (Date.now() - startTime),
+      queue,
+      visited: [...visited],
+      crawled,
+      linkedUrls: [...linkedUrls],
+      sitemapUrls: [...sitemapUrls],
+      blockedByRobots: [...blockedByRobots],
+      skippedDueToDepth,
+      skippedDueToExclude,
+      throttledRequests: previousThrottled + scheduler.getStats().throttled,
+    };
+    await writeJsonAtomic(checkpointPath, state);
+  };
+
+  // Ctrl-C finishes the batch in flight, saves a checkpoint and exits.
+  // A second Ctrl-C exits immediately.
+  let interrupted = false;
+  const onSigint = () => {
+    if (interrupted) {
+      process.exit(130);
+    }
+    interrupted = true;
+    console.log(chalk.yellow('\nInterrupted: finishing current batch and saving checkpoint (Ctrl-C again to abort)...'));
+  };
+  process.on('SIGINT', onSigint);
+
+  let lastCheckpointAt = Date.now();
 
   // Concurrency limiter
   const limiter = createLimiter(config.concurrency);
 
-  // Process queue in batches
-  while (queue.length > 0) {
-    // Take a batch from the queue
-    const batchSize = Math.min(queue.length, config.concurrency * 2);
-    const batch = queue.splice(0, batchSize);
+  try {
+    // Process queue in batches
+    while (queue.length > 0) {
+      // Take a batch from the queue
+      const batchSize = Math.min(queue.length, config.concurrency * 2);
+      const batch = queue.splice(0, batchSize);
+
+      // Filter out already visited URLs and apply depth limit
+      const toProcess = batch.filter(item => {
+        const normalizedUrl = normalizeUrl(item.url);
+
+        if (visited.has(normalizedUrl)) {
+          return false;
+        }
 
-    // Filter out already visited URLs and apply depth limit
-    const toProcess = batch.filter(item => {
-      const normalizedUrl = normalizeUrl(item.url);
+        if (item.depth > config.maxDepth) {
+          skippedDueToDepth++;
+          return false;
+        }
 
-      if (visited.has(normalizedUrl)) {
-        return false;
-      }
+        if (shouldExclude(normalizedUrl, excludePatterns)) {
+          skippedDueToExclude++;
+          log(chalk.yellow('Excluding:'), normalizedUrl);
+          return false;
+        }
 
-      if (item.depth > config.maxDepth) {
-        skippedDueToDepth++;
-        return false;
-      }
+        if (robots && !robots.isAllowed(normalizedUrl)) {
+          if (!blockedByRobots.has(normalizedUrl)) {
+            blockedByRobots.add(normalizedUrl);
+            log(chalk.yellow('Disallowed by robots.txt:'), normalizedUrl);
+          }
+          return false;
+        }
 
-      if (shouldExclude(normalizedUrl, excludePatterns)) {
-        skippedDueToExclude++;
-        log(chalk.yellow('Excluding:'), normalizedUrl);
-        return false;
-      }
+        visited.add(normalizedUrl);
+        return true;
+      });
 
-      visited.add(normalizedUrl);
-      return true;
-    });
+      if (toProcess.length > 0) {
+        log(chalk.cyan(`Processing batch of ${toProcess.length} URLs...`));
 
-    if (toProcess.length === 0) {
-      continue;
-    }
+        // Process batch in parallel
+        const results = await Promise.all(
+          toProcess.map(item =>
+            limiter(async () => {
+              const result = await crawlUrl(item.url, item.depth, item.discoveredFrom, config, auth, scheduler, analyzer);
 
-    log(chalk.cyan(`Processing batch of ${toProcess.length} URLs...`));
+              // Apply delay between requests
+              if (config.delay > 0) {
+                await sleep(config.delay);
+              }
 
-    // Process batch in parallel
-    const results = await Promise.all(
-      toProcess.map(item =>
-        limiter(async () => {
-          const result = await crawlUrl(item.url, item.depth, item.discoveredFrom, config);
+              return result;
+            })
+          )
+        );
 
-          // Apply delay between requests
-          if (config.delay > 0) {
-            await sleep(config.delay);
-          }
+        // Process results
+        results.forEach((result, index) => {
+          if (!result) return;
 
-          return result;
-        })
-      )
-    );
+          crawled.push({ requestedUrl: normalizeUrl(toProcess[index].url), crawledUrl: result.crawledUrl });
 
-    // Process results
-    for (const result of results) {
-      if (!result) continue;
+          if (isSuccessStatus(result.crawledUrl.statusCode)) {
+            successfulCrawls++;
+          } else {
+            failedCrawls++;
+          }
 
-      crawledUrls.push(result.crawledUrl);
+          // Add discovered links to queue
+          for (const link of result.links) {
+            const normalizedLink = normalizeUrl(link);
+            linkedUrls.add(normalizedLink);
+            if (!visited.has(normalizedLink)) {
+              queue.push({
+                url: normalizedLink,
+                depth: result.crawledUrl.depth + 1,
+                discoveredFrom: result.crawledUrl.url,
+              });
+            }
+          }
 
-      if (isSuccessStatus(result.crawledUrl.statusCode)) {
-        successfulCrawls++;
-      } else {
-        failedCrawls++;
+          log(
+            result.crawledUrl.statusCode === 200
+              ? chalk.green('✓')
+              : chalk.red('✗'),
+            chalk.gray(`[${result.crawledUrl.statusCode}]`),
+            chalk.white(result.crawledUrl.path),
+            chalk.gray(`(${result.links.length} links, depth: ${result.crawledUrl.depth})`)
+          );
+        });
+
+        // Show progress
+        console.log(
+          chalk.blue(`Crawled: ${crawled.length} | Queue: ${queue.length} | Visited: ${visited.size}`)
+        );
       }
 
-      // Add discovered links to queue
-      for (const link of result.links) {
-        const normalizedLink = normalizeUrl(link);
-        if (!visited.has(normalizedLink)) {
-          queue.push({
-            url: normalizedLink,
-            depth: result.crawledUrl.depth + 1,
-            discoveredFrom: result.crawledUrl.url,
-          });
-        }
+      // Checkpoint at batch boundaries, where the state is consistent
+      if (interrupted) {
+        await saveCheckpoint();
+        console.log(chalk.yellow('Checkpoint saved:'), checkpointPath);
+        console.log(chalk.yellow('Resume with:'), `crawl --resume ${checkpointPath}`);
+        process.exit(130);
+      }
+      if (config.checkpointInterval > 0 && Date.now() - lastCheckpointAt >= config.checkpointInterval) {
+        await saveCheckpoint();
+        lastCheckpointAt = Date.now();
+        log(chalk.gray(`Checkpoint saved: ${checkpointPath}`));
       }
-
-      log(
-        result.crawledUrl.statusCode === 200
-          ? chalk.green('✓')
-          : chalk.red('✗'),
-        chalk.gray(`[${result.crawledUrl.statusCode}]`),
-        chalk.white(result.crawledUrl.path),
-        chalk.gray(`(${result.links.length} links, depth: ${result.crawledUrl.depth})`)
-      );
     }
+  } finally {
+    process.off('SIGINT', onSigint);
+    await analyzer.close();
+  }
 
-    // Show progress
-    console.log(
-      chalk.blue(`Crawled: ${crawledUrls.length} | Queue: ${queue.length} | Visited: ${visited.size}`)
+  const crawledUrls = crawled.map(c => c.crawledUrl);
+
+  // Record how each page was discovered, now that all links are known
+  for (const { requestedUrl, crawledUrl } of crawled) {
+    crawledUrl.discoveredVia = getDiscoverySource(
+      linkedUrls.has(requestedUrl),
+      sitemapUrls.has(requestedUrl)
     );
   }
 
-  const durationMs = Date.now() - startTime;
+  const durationMs = previousElapsedMs + (Date.now() - startTime);
 
   const stats: CrawlStats = {
     totalUrls: crawledUrls.length,
@@ -148,6 +325,9 @@ export async function crawl(config: CrawlerConfig): Promise<CrawlerOutput> {
     failedCrawls,
     skippedDueToDepth,
     skippedDueToExclude,
+    skippedDueToRobots: blockedByRobots.size,
+    sitemapUrls: sitemapUrls.size,
+    throttledRequests: previousThrottled + scheduler.getStats().throttled,
     durationMs,
   };
 
@@ -156,11 +336,12 @@ export async function crawl(config: CrawlerConfig): Promise<CrawlerOutput> {
     urls: crawledUrls,
     stats,
     crawledAt: new Date().toISOString(),
-    config,
+    config: { ...config, auth: redactAuth(config.auth) },
   };
 
-  // Write output file
+  // Write output file; the checkpoint is no longer needed
   await fse.writeJson(config.outputPath, output, { spaces: 2 });
+  await fse.remove(checkpointPath);
 
   // Print summary
   console.log('');
@@ -172,6 +353,15 @@ export async function crawl(config: CrawlerConfig): Promise<CrawlerOutput> {
   console.log(chalk.red('Failed:'), stats.failedCrawls);
   console.log(chalk.yellow('Skipped (depth):'), stats.skippedDueToDepth);
   console.log(chalk.yellow('Skipped (excluded):'), stats.skippedDueToExclude);
+  if (config.respectRobots) {
+    console.log(chalk.yellow('Skipped (robots.txt):'), stats.skippedDueToRobots);
+  }
+  if (config.useSitemap) {
+    console.log(chalk.blue('Sitemap URLs:'), stats.sitemapUrls);
+  }
+  if (stats.throttledRequests > 0) {
+    console.log(chalk.yellow('Throttled (429/503):'), stats.throttledRequests);
+  }
   console.log(chalk.blue('Duration:'), formatDuration(stats.durationMs));
   console.log(chalk.blue('Output:'), config.outputPath);
   console.log(chalk.blue('═'.repeat(60)));
@@ -179,6 +369,17 @@ export async function crawl(config: CrawlerConfig): Promise<CrawlerOutput> {
   return output;
 }
 
+/**
+ * Loads a crawl checkpoint written by an interrupted crawl
+ */
+export async function loadCrawlCheckpoint(checkpointPath: string): Promise<CrawlCheckpoint> {
+  const checkpoint: CrawlCheckpoint = await fse.readJson(checkpointPath);
+  if (checkpoint.version !== CHECKPOINT_VERSION || !checkpoint.config || !Array.isArray(checkpoint.queue)) {
+    throw new Error(`Not a crawl checkpoint (or unsupported version): ${checkpointPath}`);
+  }
+  return checkpoint;
+}
+
 /**
  * Crawls a single URL and extracts links
  */
@@ -186,17 +387,27 @@ async function crawlUrl(
   url: string,
   depth: number,
   discoveredFrom: string | null,
-  config: CrawlerConfig
+  config: CrawlerConfig,
+  auth: RequestAuth | null,
+  scheduler: HostScheduler,
+  analyzer: PageAnalyzer
 ): Promise<{ crawledUrl: CrawledUrl; links: string[] } | null> {
   // Choose fetcher based on renderer config
   const result = config.renderer === 'flaresolverr' && config.flaresolverrUrl
     ? await fetchUrlWithFlareSolverr(url, {
         flaresolverrUrl: config.flaresolverrUrl,
         timeout: config.timeout,
+        cookies: auth
+          ? getCookies(auth.cookies, url).map(({ name, value, domain, path }) => ({ name, value, domain, path }))
+          : [],
+        scheduler,
       })
     : await fetchUrl(url, {
         timeout: config.timeout,
         retries: 2,
+        auth,
+        scheduler,
+        maxBodySize: config.maxBodySize,
       });
 
   if (result.error) {
@@ -208,13 +419,18 @@ async function crawlUrl(
         statusCode: result.statusCode,
         depth,
         discoveredFrom,
+        discoveredVia: 'links',
       },
       links: [],
     };
   }
 
-  // Parse HTML to extract title and links
-  const parsed = parseHtml(result.body, url);
+  // Parse HTML once for title, links, metadata and fingerprint
+  const parsed = await analyzer.analyze(result.body, {
+    baseUrl: url,
+    fingerprint: config.fingerprint,
+    parser: config.parser,
+  });
 
   // Filter links to only internal ones that match the source domain
   const sourceDomain = getDomain(config.sourceUrl);
@@ -234,6 +450,12 @@ async function crawlUrl(
       statusCode: result.statusCode,
       depth,
       discoveredFrom,
+      discoveredVia: 'links',
+      seo: {
+        ...parsed.metadata,
+        xRobotsTag: result.headers['x-robots-tag'] ?? null,
+      },
+      ...(parsed.content ? { content: parsed.content } : {}),
     },
     links: internalLinks,
   };
@@ -263,6 +485,14 @@ function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Combines link and sitemap discovery flags into a single source
+ */
+function getDiscoverySource(viaLinks: boolean, viaSitemap: boolean): DiscoverySource {
+  if (viaLinks && viaSitemap) return 'both';
+  return viaSitemap ? 'sitemap' : 'links';
+}
+
 /**
  * Checks if a URL should be excluded based on patterns
  */
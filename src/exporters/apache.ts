@@ -0,0 +1,48 @@
+import type { RedirectExport } from '../types/index.js';
+import { decodePath, describeExport, escapeRegex, splitRules } from './rules.js';
+
+/**
+ * Renders rules as Apache `.htaccess` mod_alias directives.
+ * `Redirect` also matches everything below its path, so exact rules that are a
+ * directory of another rule use an anchored `RedirectMatch` instead.
+ */
+export function renderApacheRules(exported: RedirectExport): string {
+  const { exact, prefix } = splitRules(exported.rules);
+  const lines = describeExport(exported.inputPath, exported.exportedAt, exported.rules).map(line => `# ${line}`);
+
+  const froms = exported.rules.map(rule => rule.from);
+  const hasRulesBelow = (path: string) => {
+    const directory = path.endsWith('/') ? path : `${path}/`;
+    return froms.some(from => from !== path && from.startsWith(directory));
+  };
+
+  if (exact.length > 0) {
+    lines.push('');
+    for (const rule of exact) {
+      const from = decodePath(rule.from);
+      lines.push(
+        hasRulesBelow(rule.from)
+          ? `RedirectMatch 301 ${quote(`^${escapeRegex(from)}$`)} ${quote(rule.to)}`
+          : `Redirect 301 ${quote(from)} ${quote(rule.to)}`
+      );
+    }
+  }
+
+  if (prefix.length > 0) {
+    lines.push(
+      '',
+      ...prefix.map(rule =>
+        `RedirectMatch 301 ${quote(`^${escapeRegex(decodePath(rule.from))}(.*)$`)} ${quote(`${rule.to}$1`)}`
+      )
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Quotes an argument that contains whitespace
+ */
+function quote(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+}
@@ -0,0 +1,21 @@
+import type { RedirectExport } from '../types/index.js';
+import { formatCsv } from '../utils/csv.js';
+import { escapeRegex, splitRules } from './rules.js';
+
+/**
+ * Renders rules as CSV in the mapping file format, so the file can be passed
+ * back to `validate --map`. Prefix rules become pattern rows.
+ */
+export function renderCsvRules(exported: RedirectExport): string {
+  const { exact, prefix } = splitRules(exported.rules);
+  const rows: string[][] = [['from', 'to', 'type', 'covers']];
+
+  for (const rule of exact) {
+    rows.push([rule.from, rule.to, 'exact', String(rule.covers)]);
+  }
+  for (const rule of prefix) {
+    rows.push([`^${escapeRegex(rule.from)}(.*)$`, `${rule.to}$1`, 'pattern', String(rule.covers)]);
+  }
+
+  return formatCsv(rows);
+}
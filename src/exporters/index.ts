@@ -0,0 +1,45 @@
+import type { RedirectExport, RedirectExportFormat } from '../types/index.js';
+import { renderNginxRules } from './nginx.js';
+import { renderApacheRules } from './apache.js';
+import { renderNetlifyRules } from './netlify.js';
+import { renderVercelRules } from './vercel.js';
+import { renderCsvRules } from './csv.js';
+
+/**
+ * Serializes exported redirect rules for one server
+ */
+export interface RedirectWriter {
+  /** File name written in the output directory */
+  fileName: string;
+  /** Renders the rules as file contents */
+  render(exported: RedirectExport): string;
+}
+
+/**
+ * Writers for every supported redirect format
+ */
+export const REDIRECT_WRITERS: Record<RedirectExportFormat, RedirectWriter> = {
+  nginx: { fileName: 'redirects.nginx.conf', render: renderNginxRules },
+  apache: { fileName: '.htaccess', render: renderApacheRules },
+  netlify: { fileName: '_redirects', render: renderNetlifyRules },
+  vercel: { fileName: 'vercel.json', render: renderVercelRules },
+  csv: { fileName: 'redirects.csv', render: renderCsvRules },
+};
+
+/**
+ * Names of the supported redirect formats
+ */
+export const REDIRECT_EXPORT_FORMATS = Object.keys(REDIRECT_WRITERS) as RedirectExportFormat[];
+
+/**
+ * Parses --format values, accepting repeated and comma-separated formats.
+ * Throws on unknown formats.
+ */
+export function parseRedirectFormats(values: string[]): RedirectExportFormat[] {
+  const formats = values.flatMap(value => value.split(',')).map(f => f.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(f => !REDIRECT_EXPORT_FORMATS.includes(f as RedirectExportFormat));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown redirect format: ${unknown.join(', ')} (valid: ${REDIRECT_EXPORT_FORMATS.join(', ')})`);
+  }
+  return [...new Set(formats)] as RedirectExportFormat[];
+}
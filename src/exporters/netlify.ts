@@ -0,0 +1,27 @@
+import type { RedirectExport } from '../types/index.js';
+import { describeExport, splitRules } from './rules.js';
+
+/**
+ * Renders rules as a Netlify `_redirects` file (first match wins, so exact rules come first)
+ */
+export function renderNetlifyRules(exported: RedirectExport): string {
+  const { exact, prefix } = splitRules(exported.rules);
+  const lines = describeExport(exported.inputPath, exported.exportedAt, exported.rules).map(line => `# ${line}`);
+
+  lines.push('');
+  for (const rule of exact) {
+    lines.push(`${encodeSpaces(rule.from)}  ${encodeSpaces(rule.to)}  301`);
+  }
+  for (const rule of prefix) {
+    lines.push(`${encodeSpaces(rule.from)}*  ${encodeSpaces(rule.to)}:splat  301`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Percent-encodes whitespace, which separates fields in _redirects
+ */
+function encodeSpaces(value: string): string {
+  return value.replace(/\s/g, char => encodeURIComponent(char));
+}
@@ -0,0 +1,45 @@
+import type { RedirectExport } from '../types/index.js';
+import { decodePath, describeExport, escapeRegex, splitRules } from './rules.js';
+
+/**
+ * Renders rules as nginx configuration: a `map` of exact paths (http block)
+ * and `rewrite` directives for prefixes (server block)
+ */
+export function renderNginxRules(exported: RedirectExport): string {
+  const { exact, prefix } = splitRules(exported.rules);
+  const lines = describeExport(exported.inputPath, exported.exportedAt, exported.rules).map(line => `# ${line}`);
+
+  if (exact.length > 0) {
+    lines.push(
+      '',
+      '# In the http block (raise map_hash_max_size if nginx asks for it):',
+      'map $uri $redirect_target {',
+      ...exact.map(rule => `    ${quote(decodePath(rule.from))} ${quote(rule.to)};`),
+      '}',
+      '',
+      '# In the server block:',
+      'if ($redirect_target) {',
+      '    return 301 $redirect_target;',
+      '}'
+    );
+  }
+
+  if (prefix.length > 0) {
+    lines.push(
+      '',
+      exact.length > 0 ? '# Also in the server block, after the map redirect:' : '# In the server block:',
+      ...prefix.map(rule =>
+        `rewrite ${quote(`^${escapeRegex(decodePath(rule.from))}(.*)$`)} ${quote(`${rule.to}$1`)} permanent;`
+      )
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Quotes a configuration value when it contains characters nginx would split on
+ */
+function quote(value: string): string {
+  return /[\s;{}"'#]/.test(value) ? `"${value.replace(/["\\]/g, '\\$&')}"` : value;
+}
@@ -0,0 +1,43 @@
+import type { RedirectRule } from '../types/index.js';
+
+/**
+ * Decodes percent-encoded characters in a path (servers like nginx and Apache
+ * match against the decoded path). Returns the path unchanged if it is malformed.
+ */
+export function decodePath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Escapes regular expression metacharacters
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits rules into exact and prefix rules, most specific prefix first
+ */
+export function splitRules(rules: RedirectRule[]): { exact: RedirectRule[]; prefix: RedirectRule[] } {
+  return {
+    exact: rules.filter(r => r.type === 'exact'),
+    prefix: rules
+      .filter(r => r.type === 'prefix')
+      .sort((a, b) => b.from.length - a.from.length || a.from.localeCompare(b.from)),
+  };
+}
+
+/**
+ * Comment lines describing where a rule file came from
+ */
+export function describeExport(inputPath: string, exportedAt: string, rules: RedirectRule[]): string[] {
+  const { exact, prefix } = splitRules(rules);
+  return [
+    `Redirect rules generated by url-migration-checker from ${inputPath} (${exportedAt})`,
+    `${exact.length} exact, ${prefix.length} prefix`,
+  ];
+}
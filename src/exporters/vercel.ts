@@ -0,0 +1,27 @@
+import type { RedirectExport } from '../types/index.js';
+import { splitRules } from './rules.js';
+
+/**
+ * Renders rules as the `redirects` section of a `vercel.json` file
+ */
+export function renderVercelRules(exported: RedirectExport): string {
+  const { exact, prefix } = splitRules(exported.rules);
+
+  const redirects = [
+    ...exact.map(rule => ({ source: escapeSource(rule.from), destination: rule.to, permanent: true })),
+    ...prefix.map(rule => ({
+      source: `${escapeSource(rule.from)}:path*`,
+      destination: `${rule.to}:path*`,
+      permanent: true,
+    })),
+  ];
+
+  return JSON.stringify({ redirects }, null, 2) + '\n';
+}
+
+/**
+ * Escapes characters that have a meaning in Vercel's path patterns
+ */
+function escapeSource(path: string): string {
+  return path.replace(/[:()*?+{}[\]]/g, '\\$&');
+}
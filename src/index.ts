@@ -1,36 +1,127 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
-import { crawl, generateOutputFilename } from './crawler.js';
-import { validate, generateReportFilename } from './validator.js';
-import type { CrawlerConfig, ValidatorConfig, RendererType } from './types/index.js';
+import { crawl, generateOutputFilename, loadCrawlCheckpoint } from './crawler.js';
+import { validate, generateReportFilename, loadValidationReport } from './validator.js';
+import { verifyRedirects, generateRedirectReportFilename } from './redirect-verifier.js';
+import { compareSites, generateCompareReportFilename, parsePrefixRewrites } from './compare.js';
+import { diffCrawls } from './crawl-diff.js';
+import { diffReports, EXIT_REGRESSIONS_FOUND } from './report-diff.js';
+import { getReportPath, parseReportFormats, writeReports, REPORT_FORMATS } from './reporters/index.js';
+import { exportRedirects, generateRedirectExportDirname } from './redirect-export.js';
+import { parseRedirectFormats, REDIRECT_EXPORT_FORMATS } from './exporters/index.js';
+import type {
+  AuthConfig,
+  CrawlerConfig,
+  ValidatorConfig,
+  RedirectVerifierConfig,
+  RendererType,
+  HtmlParserMode,
+  ReportFormat,
+  ValidationThresholds,
+  ReportDiffConfig,
+  CrawlDiffConfig,
+  CompareConfig,
+  PrefixRewrite,
+  ResolveOverride,
+  RedirectExportConfig,
+  RedirectExportFormat,
+} from './types/index.js';
+import { THRESHOLD_ISSUE_TYPES, issueThresholdName, parseThresholds } from './utils/thresholds.js';
+import {
+  applyProjectSettings,
+  findProjectConfig,
+  loadProjectConfig,
+  resolveProjectSettings,
+  PROJECT_CONFIG_FILES,
+} from './utils/project-config.js';
+import { parseAuthOptions } from './utils/auth.js';
+import { parseResolveOverrides } from './utils/resolve.js';
+import { parseByteSize } from './utils/http.js';
 
 const DEFAULT_FLARESOLVERR_URL = 'http://localhost:8191/v1';
 
+const HTML_PARSER_MODES: HtmlParserMode[] = ['auto', 'dom', 'stream'];
+
 const program = new Command();
 
 program
   .name('url-migration-checker')
   .description('CLI tool to crawl a source website and validate URL migrations to a new destination')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--config <path>', `Project config file (default: ${PROJECT_CONFIG_FILES.join(', ')} in the current directory)`)
+  .option('--no-config', 'Ignore the project config file')
+  .option('--source-profile <name>', 'Config profile to crawl (default: the config\'s "source")')
+  .option('--destination-profile <name>', 'Config profile to validate against (default: the config\'s "destination")');
 
 // Crawl command
-program
+const crawlCommand = program
   .command('crawl')
   .description('Crawl a website and discover all URLs')
-  .requiredOption('-u, --url <url>', 'Source URL to crawl')
+  .option('-u, --url <url>', 'Source URL to crawl (required unless --resume is given)')
   .option('-o, --output <path>', 'Output file path')
   .option('-d, --max-depth <number>', 'Maximum crawl depth', '10')
   .option('-c, --concurrency <number>', 'Number of parallel requests', '5')
   .option('-t, --timeout <ms>', 'Request timeout in milliseconds', '10000')
   .option('--delay <ms>', 'Delay between requests in milliseconds', '100')
+  .option('--max-rps <n>', 'Most requests per second per host (default: no cap)')
+  .option('--http2', 'Use HTTP/2 with servers that offer it', false)
+  .option('--max-body-size <size>', 'Largest page body read (e.g. 512kb, 5mb); longer pages are cut off', '5mb')
+  .option('--parser <type>', 'HTML parser: auto, dom or stream', 'auto')
+  .option('--parse-workers <n>', 'Worker threads that parse pages (0 parses in the main thread)', '0')
   .option('-e, --exclude <patterns...>', 'URL patterns to exclude (regex)')
   .option('-r, --renderer <type>', 'Renderer type: static or flaresolverr (for SPAs)', 'static')
   .option('--flaresolverr-url <url>', 'FlareSolverr API URL', DEFAULT_FLARESOLVERR_URL)
+  .option('--sitemap', 'Also seed the crawl from robots.txt sitemaps and /sitemap.xml', false)
+  .option('--respect-robots', 'Obey robots.txt Allow/Disallow rules and Crawl-delay', false)
+  .option('--fingerprint', 'Record a body text fingerprint per page (enables content checks in validate)', false)
+  .option('--checkpoint-interval <seconds>', 'Seconds between checkpoint saves (0 to disable)', '30')
+  .option('--resume <checkpoint>', 'Resume an interrupted crawl from its checkpoint file')
+  .option('--basic-auth <user:password>', 'HTTP basic auth (values may use ${NAME} environment references)')
+  .option('--bearer-token <token>', 'Bearer token for the Authorization header')
+  .option('-H, --header <header...>', 'Extra request header as "Name: value" (repeatable)')
+  .option('--cookie-jar <path>', 'Netscape cookie file whose cookies are sent')
+  .option('--login-url <url>', 'Login page whose form is submitted before the run to get session cookies')
+  .option('--login-field <field...>', 'Login form field as name=value (repeatable)')
+  .option('--auth-host <hosts...>', 'Other hosts that also get the auth headers (repeatable)')
+  .option('--resolve <host:port:address...>', 'Connect to this address for host:port instead of using DNS (repeatable)')
   .option('-v, --verbose', 'Enable verbose logging', false)
   .action(async (options) => {
     try {
+      let auth: AuthConfig | undefined;
+      let resolve: ResolveOverride[] | undefined;
+      try {
+        auth = parseAuthOptions(options);
+        resolve = options.resolve ? parseResolveOverrides(options.resolve) : undefined;
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+
+      // Resume with the original config; other options are ignored, except
+      // auth options, which replace credentials redacted from the checkpoint,
+      // and --resolve, which replaces the saved overrides
+      if (options.resume) {
+        const fse = await import('fs-extra');
+        if (!await fse.default.pathExists(options.resume)) {
+          console.error(chalk.red('Checkpoint file not found:'), options.resume);
+          process.exit(1);
+        }
+        const checkpoint = await loadCrawlCheckpoint(options.resume);
+        await crawl({
+          ...checkpoint.config,
+          auth: auth ?? checkpoint.config.auth,
+          resolve: resolve ?? checkpoint.config.resolve,
+        }, checkpoint);
+        return;
+      }
+
+      if (!options.url) {
+        console.error(chalk.red("error: required option '-u, --url <url>' not specified"));
+        process.exit(1);
+      }
+
       // Validate URL
       let sourceUrl = options.url;
       try {
@@ -62,6 +153,17 @@ program
         verbose: options.verbose,
         renderer,
         flaresolverrUrl: options.flaresolverrUrl,
+        useSitemap: options.sitemap,
+        respectRobots: options.respectRobots,
+        checkpointInterval: parseFloat(options.checkpointInterval) * 1000,
+        fingerprint: options.fingerprint,
+        auth,
+        resolve,
+        maxRequestsPerSecond: options.maxRps !== undefined ? parseFloat(options.maxRps) : undefined,
+        http2: options.http2,
+        maxBodySize: parseByteSize(options.maxBodySize),
+        parser: options.parser as HtmlParserMode,
+        parseWorkers: parseInt(options.parseWorkers, 10),
       };
 
       // Validate numeric options
@@ -77,6 +179,32 @@ program
         console.error(chalk.red('Invalid timeout value'));
         process.exit(1);
       }
+      if (isNaN(config.checkpointInterval) || config.checkpointInterval < 0) {
+        console.error(chalk.red('Invalid checkpoint-interval value'));
+        process.exit(1);
+      }
+      if (config.maxRequestsPerSecond !== undefined && (isNaN(config.maxRequestsPerSecond) || config.maxRequestsPerSecond <= 0)) {
+        console.error(chalk.red('Invalid max-rps value'));
+        process.exit(1);
+      }
+      if (config.maxBodySize === undefined || isNaN(config.maxBodySize) || config.maxBodySize < 1) {
+        console.error(chalk.red('Invalid max-body-size value (e.g. 512kb, 5mb)'));
+        process.exit(1);
+      }
+      if (!HTML_PARSER_MODES.includes(config.parser!)) {
+        console.error(chalk.red('Invalid parser. Use "auto", "dom" or "stream"'));
+        process.exit(1);
+      }
+      if (config.parseWorkers === undefined || isNaN(config.parseWorkers) || config.parseWorkers < 0) {
+        console.error(chalk.red('Invalid parse-workers value'));
+        process.exit(1);
+      }
+
+      const fse = await import('fs-extra');
+      if (config.auth?.cookieJar && !await fse.default.pathExists(config.auth.cookieJar)) {
+        console.error(chalk.red('Cookie file not found:'), config.auth.cookieJar);
+        process.exit(1);
+      }
 
       await crawl(config);
     } catch (error) {
@@ -86,18 +214,127 @@ program
   });
 
 // Validate command
-program
+const validateCommand = program
   .command('validate')
   .description('Validate crawled URLs against a destination')
-  .requiredOption('-i, --input <path>', 'Crawler output file path')
-  .requiredOption('-d, --destination <url>', 'Destination URL to validate against')
+  .option('-i, --input <path>', 'Crawler output file path (required unless --resume or --only-failed)')
+  .option('-d, --destination <url>', 'Destination URL to validate against (required unless --resume or --only-failed)')
   .option('-o, --output <path>', 'Output report file path')
   .option('-c, --concurrency <number>', 'Number of parallel requests', '5')
   .option('-t, --timeout <ms>', 'Request timeout in milliseconds', '10000')
+  .option('--max-rps <n>', 'Most requests per second per host (default: no cap)')
+  .option('--http2', 'Use HTTP/2 with servers that offer it', false)
+  .option('--max-body-size <size>', 'Largest page body read (e.g. 512kb, 5mb); longer pages are cut off', '5mb')
+  .option('--parser <type>', 'HTML parser: auto, dom or stream', 'auto')
+  .option('--parse-workers <n>', 'Worker threads that parse pages (0 parses in the main thread)', '0')
   .option('--redirects-ok', 'Treat redirects as OK instead of warning', false)
+  .option('--check-robots', "Flag URLs disallowed by the destination's robots.txt", false)
+  .option('--no-calibrate', "Skip probing the destination's 404 page; use only the soft 404 heuristic")
+  .option('--soft404-rules <path>', 'Soft 404 rules file (JSON): patterns, selectors, language packs, allowed paths')
+  .option('--map <path>', 'URL mapping file (CSV or JSON) from source paths to destination URLs')
+  .option('--checkpoint-interval <seconds>', 'Seconds between partial report saves (0 to disable)', '30')
+  .option('--resume <partial-report>', 'Resume an interrupted run from its partial report')
+  .option('--basic-auth <user:password>', 'HTTP basic auth (values may use ${NAME} environment references)')
+  .option('--bearer-token <token>', 'Bearer token for the Authorization header')
+  .option('-H, --header <header...>', 'Extra request header as "Name: value" (repeatable)')
+  .option('--cookie-jar <path>', 'Netscape cookie file whose cookies are sent')
+  .option('--login-url <url>', 'Login page whose form is submitted before the run to get session cookies')
+  .option('--login-field <field...>', 'Login form field as name=value (repeatable)')
+  .option('--auth-host <hosts...>', 'Other hosts that also get the auth headers (repeatable)')
+  .option('--resolve <host:port:address...>', 'Connect to this address for host:port instead of using DNS (repeatable)')
+  .option('--only-failed <previous-report>', 'Re-check only error and warning results of a previous report')
+  .option('-f, --format <formats...>', `Report formats: ${REPORT_FORMATS.join(', ')} (JSON is always written)`, ['json'])
+  .option('--fail-on <level>', 'Exit with code 2 if any URL has this status or worse: none, warning, error', 'none')
+  .option('--max-errors <n>', 'Exit with code 2 if more than n URLs have errors')
+  .option('--max-warnings <n>', 'Exit with code 2 if more than n URLs have warnings')
+  .option('--max-error-rate <rate>', 'Exit with code 2 if the share of error URLs exceeds this (e.g. 2%)')
+  .option('--suggest <destination-crawl>', 'Suggest destination pages for 404 and soft-404 URLs from a crawl of the destination')
+  .option('--suggestions <n>', 'Number of suggestions per broken URL', '3')
+  .option('--content-threshold <score>', 'Minimum body text similarity (0-1) for crawls made with --fingerprint', '0.7');
+
+// Per-issue-type limits (--max-soft-404, --max-not-found, ...)
+const issueThresholdOptions = THRESHOLD_ISSUE_TYPES.map(type => {
+  const option = new Option(`--${issueThresholdName(type)} <n>`, `Exit with code 2 if more than n ${type} issues`);
+  validateCommand.addOption(option);
+  return { type, attribute: option.attributeName() };
+});
+
+validateCommand
   .option('-v, --verbose', 'Enable verbose logging', false)
   .action(async (options) => {
     try {
+      const fse = await import('fs-extra');
+
+      let thresholds: ValidationThresholds | undefined;
+      try {
+        thresholds = parseThresholds({
+          failOn: options.failOn,
+          maxErrors: options.maxErrors,
+          maxWarnings: options.maxWarnings,
+          maxErrorRate: options.maxErrorRate,
+          maxIssues: Object.fromEntries(
+            issueThresholdOptions.map(({ type, attribute }) => [type, options[attribute]])
+          ),
+        });
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+
+      let auth: AuthConfig | undefined;
+      let resolve: ResolveOverride[] | undefined;
+      try {
+        auth = parseAuthOptions(options);
+        resolve = options.resolve ? parseResolveOverrides(options.resolve) : undefined;
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+
+      // Resume with the original config; other options are ignored, except
+      // auth options, which replace credentials redacted from the partial
+      // report, and --resolve, which replaces the saved overrides
+      if (options.resume) {
+        if (!await fse.default.pathExists(options.resume)) {
+          console.error(chalk.red('Partial report not found:'), options.resume);
+          process.exit(1);
+        }
+        const partial = await loadValidationReport(options.resume);
+        const report = await validate({
+          ...partial.config,
+          auth: auth ?? partial.config.auth,
+          resolve: resolve ?? partial.config.resolve,
+        }, partial);
+        if (report.verdict?.status === 'fail') {
+          process.exit(report.verdict.exitCode);
+        }
+        return;
+      }
+
+      // Input and destination default to those of the report being re-checked
+      if (options.onlyFailed) {
+        if (!await fse.default.pathExists(options.onlyFailed)) {
+          console.error(chalk.red('Previous report not found:'), options.onlyFailed);
+          process.exit(1);
+        }
+        const previous = await loadValidationReport(options.onlyFailed);
+        options.input = options.input || previous.config.inputPath;
+        options.destination = options.destination || previous.config.destinationUrl;
+      }
+
+      if (!options.input || !options.destination) {
+        console.error(chalk.red('Both --input and --destination are required'));
+        process.exit(1);
+      }
+
+      let formats: ReportFormat[];
+      try {
+        formats = parseReportFormats(options.format);
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+
       // Validate destination URL
       let destinationUrl = options.destination;
       try {
@@ -120,6 +357,24 @@ program
         outputPath: options.output || generateReportFilename(),
         verbose: options.verbose,
         redirectHandling: options.redirectsOk ? 'ok' : 'warning',
+        checkRobots: options.checkRobots,
+        calibrateSoft404: options.calibrate,
+        soft404RulesPath: options.soft404Rules,
+        checkpointInterval: parseFloat(options.checkpointInterval) * 1000,
+        onlyFailedFrom: options.onlyFailed,
+        mapPath: options.map,
+        formats,
+        thresholds,
+        suggestFrom: options.suggest,
+        suggestionCount: parseInt(options.suggestions, 10),
+        contentThreshold: parseFloat(options.contentThreshold),
+        auth,
+        resolve,
+        maxRequestsPerSecond: options.maxRps !== undefined ? parseFloat(options.maxRps) : undefined,
+        http2: options.http2,
+        maxBodySize: parseByteSize(options.maxBodySize),
+        parser: options.parser as HtmlParserMode,
+        parseWorkers: parseInt(options.parseWorkers, 10),
       };
 
       // Validate numeric options
@@ -131,21 +386,483 @@ program
         console.error(chalk.red('Invalid timeout value'));
         process.exit(1);
       }
+      if (isNaN(config.checkpointInterval) || config.checkpointInterval < 0) {
+        console.error(chalk.red('Invalid checkpoint-interval value'));
+        process.exit(1);
+      }
+      if (config.maxRequestsPerSecond !== undefined && (isNaN(config.maxRequestsPerSecond) || config.maxRequestsPerSecond <= 0)) {
+        console.error(chalk.red('Invalid max-rps value'));
+        process.exit(1);
+      }
+      if (config.maxBodySize === undefined || isNaN(config.maxBodySize) || config.maxBodySize < 1) {
+        console.error(chalk.red('Invalid max-body-size value (e.g. 512kb, 5mb)'));
+        process.exit(1);
+      }
+      if (!HTML_PARSER_MODES.includes(config.parser!)) {
+        console.error(chalk.red('Invalid parser. Use "auto", "dom" or "stream"'));
+        process.exit(1);
+      }
+      if (config.parseWorkers === undefined || isNaN(config.parseWorkers) || config.parseWorkers < 0) {
+        console.error(chalk.red('Invalid parse-workers value'));
+        process.exit(1);
+      }
+      if (config.suggestionCount === undefined || isNaN(config.suggestionCount) || config.suggestionCount < 1) {
+        console.error(chalk.red('Invalid suggestions value'));
+        process.exit(1);
+      }
+      if (config.contentThreshold === undefined || isNaN(config.contentThreshold) || config.contentThreshold < 0 || config.contentThreshold > 1) {
+        console.error(chalk.red('Invalid content-threshold value (expected 0 to 1)'));
+        process.exit(1);
+      }
 
       // Check input file exists
-      const fse = await import('fs-extra');
       if (!await fse.default.pathExists(config.inputPath)) {
         console.error(chalk.red('Input file not found:'), config.inputPath);
         process.exit(1);
       }
+      if (config.mapPath && !await fse.default.pathExists(config.mapPath)) {
+        console.error(chalk.red('Mapping file not found:'), config.mapPath);
+        process.exit(1);
+      }
+      if (config.soft404RulesPath && !await fse.default.pathExists(config.soft404RulesPath)) {
+        console.error(chalk.red('Soft 404 rules file not found:'), config.soft404RulesPath);
+        process.exit(1);
+      }
+      if (config.suggestFrom && !await fse.default.pathExists(config.suggestFrom)) {
+        console.error(chalk.red('Destination crawl not found:'), config.suggestFrom);
+        process.exit(1);
+      }
+      if (config.auth?.cookieJar && !await fse.default.pathExists(config.auth.cookieJar)) {
+        console.error(chalk.red('Cookie file not found:'), config.auth.cookieJar);
+        process.exit(1);
+      }
 
-      await validate(config);
+      const report = await validate(config);
+      if (report.verdict?.status === 'fail') {
+        process.exit(report.verdict.exitCode);
+      }
     } catch (error) {
       console.error(chalk.red('Validation failed:'), error);
       process.exit(1);
     }
   });
 
+// Verify redirects command
+program
+  .command('verify-redirects')
+  .description('Check that every crawled source URL permanently redirects to its destination')
+  .requiredOption('-i, --input <path>', 'Crawler output file path')
+  .requiredOption('-d, --destination <url>', 'Destination URL the source should redirect to')
+  .option('-o, --output <path>', 'Output report file path')
+  .option('-c, --concurrency <number>', 'Number of parallel requests', '5')
+  .option('-t, --timeout <ms>', 'Request timeout in milliseconds', '10000')
+  .option('--max-hops <number>', 'Maximum redirect hops before a chain is flagged', '1')
+  .option('--map <path>', 'URL mapping file (CSV or JSON) from source paths to destination URLs')
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (options) => {
+    try {
+      // Validate destination URL
+      let destinationUrl = options.destination;
+      try {
+        const parsed = new URL(destinationUrl);
+        if (!parsed.protocol.startsWith('http')) {
+          throw new Error('URL must use http or https protocol');
+        }
+        // Remove trailing slash
+        destinationUrl = parsed.origin + parsed.pathname.replace(/\/$/, '');
+      } catch (error) {
+        console.error(chalk.red('Invalid destination URL:'), options.destination);
+        process.exit(1);
+      }
+
+      const config: RedirectVerifierConfig = {
+        inputPath: options.input,
+        destinationUrl,
+        concurrency: parseInt(options.concurrency, 10),
+        timeout: parseInt(options.timeout, 10),
+        outputPath: options.output || generateRedirectReportFilename(),
+        verbose: options.verbose,
+        maxHops: parseInt(options.maxHops, 10),
+        mapPath: options.map,
+      };
+
+      // Validate numeric options
+      if (isNaN(config.concurrency) || config.concurrency < 1) {
+        console.error(chalk.red('Invalid concurrency value'));
+        process.exit(1);
+      }
+      if (isNaN(config.timeout) || config.timeout < 0) {
+        console.error(chalk.red('Invalid timeout value'));
+        process.exit(1);
+      }
+      if (isNaN(config.maxHops) || config.maxHops < 1) {
+        console.error(chalk.red('Invalid max-hops value'));
+        process.exit(1);
+      }
+
+      // Check input files exist
+      const fse = await import('fs-extra');
+      if (!await fse.default.pathExists(config.inputPath)) {
+        console.error(chalk.red('Input file not found:'), config.inputPath);
+        process.exit(1);
+      }
+      if (config.mapPath && !await fse.default.pathExists(config.mapPath)) {
+        console.error(chalk.red('Mapping file not found:'), config.mapPath);
+        process.exit(1);
+      }
+
+      await verifyRedirects(config);
+    } catch (error) {
+      console.error(chalk.red('Redirect verification failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// Report command
+program
+  .command('report')
+  .description('Convert a validation report JSON into HTML, CSV or JUnit XML')
+  .requiredOption('-i, --input <path>', 'Validation report file path')
+  .option('-f, --format <formats...>', `Output formats: ${REPORT_FORMATS.join(', ')}`, ['html'])
+  .option('-o, --output <path>', 'Output file path (single format only; defaults to the input path with the format extension)')
+  .action(async (options) => {
+    try {
+      let formats: ReportFormat[];
+      try {
+        formats = parseReportFormats(options.format);
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+      if (options.output && formats.length !== 1) {
+        console.error(chalk.red('--output can only be used with a single --format'));
+        process.exit(1);
+      }
+
+      const fse = await import('fs-extra');
+      if (!await fse.default.pathExists(options.input)) {
+        console.error(chalk.red('Report not found:'), options.input);
+        process.exit(1);
+      }
+
+      const report = await loadValidationReport(options.input);
+
+      const written = await writeReports(
+        report,
+        formats.map(format => ({ format, outputPath: options.output || getReportPath(options.input, format) }))
+      );
+      for (const outputPath of written) {
+        console.log(chalk.green('Report written:'), outputPath);
+      }
+    } catch (error) {
+      console.error(chalk.red('Report generation failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// Compare command
+program
+  .command('compare')
+  .description('Crawl source and destination and report pages missing on either side')
+  .option('-s, --source <url>', 'Source site URL (required unless --source-crawl)')
+  .option('-d, --destination <url>', 'Destination site URL (required unless --destination-crawl)')
+  .option('--source-crawl <path>', 'Use an existing source crawl instead of crawling')
+  .option('--destination-crawl <path>', 'Use an existing destination crawl instead of crawling')
+  .option('--rewrite <rules...>', 'Prefix rewrites from source to destination paths, e.g. /blog/=/articles/')
+  .option('--rollup-depth <number>', 'Path segments per directory in rollups', '1')
+  .option('-o, --output <path>', 'Output report file path')
+  .option('--max-depth <number>', 'Maximum crawl depth', '10')
+  .option('-c, --concurrency <number>', 'Number of parallel requests', '5')
+  .option('-t, --timeout <ms>', 'Request timeout in milliseconds', '10000')
+  .option('--delay <ms>', 'Delay between requests in milliseconds', '100')
+  .option('-e, --exclude <patterns...>', 'URL patterns to exclude (regex)')
+  .option('-r, --renderer <type>', 'Renderer type: static or flaresolverr (for SPAs)', 'static')
+  .option('--flaresolverr-url <url>', 'FlareSolverr API URL', DEFAULT_FLARESOLVERR_URL)
+  .option('--sitemap', 'Also seed the crawls from robots.txt sitemaps and /sitemap.xml', false)
+  .option('--respect-robots', 'Obey robots.txt Allow/Disallow rules and Crawl-delay', false)
+  .option('--fingerprint', 'Record a body text fingerprint per page', false)
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (options) => {
+    try {
+      const fse = await import('fs-extra');
+
+      // Site URLs default to those recorded in the given crawl files
+      for (const [urlKey, crawlKey] of [['source', 'sourceCrawl'], ['destination', 'destinationCrawl']]) {
+        if (options[crawlKey]) {
+          if (!await fse.default.pathExists(options[crawlKey])) {
+            console.error(chalk.red('Crawl file not found:'), options[crawlKey]);
+            process.exit(1);
+          }
+          options[urlKey] = options[urlKey] || (await fse.default.readJson(options[crawlKey])).sourceUrl;
+        }
+        if (!options[urlKey]) {
+          console.error(chalk.red(`--${urlKey} is required unless --${urlKey}-crawl is given`));
+          process.exit(1);
+        }
+        try {
+          const parsed = new URL(options[urlKey]);
+          if (!parsed.protocol.startsWith('http')) {
+            throw new Error('URL must use http or https protocol');
+          }
+          options[urlKey] = parsed.href;
+        } catch (error) {
+          console.error(chalk.red(`Invalid ${urlKey} URL:`), options[urlKey]);
+          process.exit(1);
+        }
+      }
+
+      const renderer = options.renderer as RendererType;
+      if (renderer !== 'static' && renderer !== 'flaresolverr') {
+        console.error(chalk.red('Invalid renderer. Use "static" or "flaresolverr"'));
+        process.exit(1);
+      }
+
+      let rewrites: PrefixRewrite[];
+      try {
+        rewrites = parsePrefixRewrites(options.rewrite || []);
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+
+      const config: CompareConfig = {
+        sourceUrl: options.source,
+        destinationUrl: options.destination,
+        sourceCrawlPath: options.sourceCrawl,
+        destinationCrawlPath: options.destinationCrawl,
+        rewrites,
+        rollupDepth: parseInt(options.rollupDepth, 10),
+        crawl: {
+          maxDepth: parseInt(options.maxDepth, 10),
+          concurrency: parseInt(options.concurrency, 10),
+          timeout: renderer === 'flaresolverr' ? 60000 : parseInt(options.timeout, 10),
+          delay: parseInt(options.delay, 10),
+          excludePatterns: options.exclude || [],
+          verbose: options.verbose,
+          renderer,
+          flaresolverrUrl: options.flaresolverrUrl,
+          useSitemap: options.sitemap,
+          respectRobots: options.respectRobots,
+          checkpointInterval: 0,
+          fingerprint: options.fingerprint,
+        },
+        outputPath: options.output || generateCompareReportFilename(),
+        verbose: options.verbose,
+      };
+
+      // Validate numeric options
+      if (isNaN(config.rollupDepth) || config.rollupDepth < 1) {
+        console.error(chalk.red('Invalid rollup-depth value'));
+        process.exit(1);
+      }
+      if (isNaN(config.crawl.maxDepth) || config.crawl.maxDepth < 0) {
+        console.error(chalk.red('Invalid max-depth value'));
+        process.exit(1);
+      }
+      if (isNaN(config.crawl.concurrency) || config.crawl.concurrency < 1) {
+        console.error(chalk.red('Invalid concurrency value'));
+        process.exit(1);
+      }
+      if (isNaN(config.crawl.timeout) || config.crawl.timeout < 0) {
+        console.error(chalk.red('Invalid timeout value'));
+        process.exit(1);
+      }
+
+      await compareSites(config);
+    } catch (error) {
+      console.error(chalk.red('Comparison failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// Diff crawls command
+program
+  .command('diff-crawls')
+  .description('Compare two crawls of the same site and emit a merged or new-URLs-only crawl')
+  .argument('<old>', 'Older crawler output')
+  .argument('<new>', 'Newer crawler output')
+  .option('--json <path>', 'Write the diff as JSON')
+  .option('--merged <path>', 'Write a merged crawl (new crawl plus URLs only in the old one)')
+  .option('--new-only <path>', 'Write a crawl containing only the added URLs')
+  .option('--include-changed', 'Also put changed URLs in the --new-only crawl', false)
+  .option('-v, --verbose', 'List every changed URL', false)
+  .action(async (oldPath: string, newPath: string, options) => {
+    try {
+      const fse = await import('fs-extra');
+      for (const crawlPath of [oldPath, newPath]) {
+        if (!await fse.default.pathExists(crawlPath)) {
+          console.error(chalk.red('Crawl not found:'), crawlPath);
+          process.exit(1);
+        }
+      }
+
+      const config: CrawlDiffConfig = {
+        oldPath,
+        newPath,
+        jsonPath: options.json,
+        mergedPath: options.merged,
+        newOnlyPath: options.newOnly,
+        includeChanged: options.includeChanged,
+        verbose: options.verbose,
+      };
+
+      await diffCrawls(config);
+    } catch (error) {
+      console.error(chalk.red('Crawl diff failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// Diff reports command
+program
+  .command('diff-reports')
+  .description('Compare two validation reports and highlight regressions')
+  .argument('<old>', 'Older validation report')
+  .argument('<new>', 'Newer validation report')
+  .option('--json <path>', 'Write the diff as JSON')
+  .option('--markdown <path>', 'Write the diff as Markdown')
+  .option('--fail-on-regression', 'Exit with code 2 if any URL regressed', false)
+  .option('-v, --verbose', 'List every changed URL', false)
+  .action(async (oldPath: string, newPath: string, options) => {
+    try {
+      const fse = await import('fs-extra');
+      for (const reportPath of [oldPath, newPath]) {
+        if (!await fse.default.pathExists(reportPath)) {
+          console.error(chalk.red('Report not found:'), reportPath);
+          process.exit(1);
+        }
+      }
+
+      const config: ReportDiffConfig = {
+        oldPath,
+        newPath,
+        jsonPath: options.json,
+        markdownPath: options.markdown,
+        failOnRegression: options.failOnRegression,
+        verbose: options.verbose,
+      };
+
+      const diff = await diffReports(config);
+      if (config.failOnRegression && diff.counts.regressions > 0) {
+        process.exit(EXIT_REGRESSIONS_FOUND);
+      }
+    } catch (error) {
+      console.error(chalk.red('Report diff failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// Export redirects command
+program
+  .command('export-redirects')
+  .description('Generate nginx, Apache, Netlify, Vercel or CSV redirect rules from a validation report or CSV of pairs')
+  .requiredOption('-i, --input <path>', 'Validation report (.json) or CSV of from,to pairs')
+  .option('-o, --output <dir>', 'Output directory for the rule files')
+  .option('-f, --format <formats...>', `Rule formats: ${REDIRECT_EXPORT_FORMATS.join(', ')}`, REDIRECT_EXPORT_FORMATS)
+  .option('--collapse-min <n>', 'Pairs sharing a prefix rewrite needed to collapse them into one rule', '3')
+  .option('--no-collapse', 'Never collapse pairs into prefix rules')
+  .option('--relative', 'Write destination paths instead of absolute URLs', false)
+  .option('--target-origin <url>', "Origin for redirect targets (replaces the report's destination origin, e.g. staging)")
+  .option('-v, --verbose', 'List every conflict, chain and skipped pair', false)
+  .action(async (options) => {
+    try {
+      let formats: RedirectExportFormat[];
+      try {
+        formats = parseRedirectFormats(options.format);
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+
+      let targetOrigin: string | undefined;
+      if (options.targetOrigin) {
+        try {
+          const parsed = new URL(options.targetOrigin);
+          if (!parsed.protocol.startsWith('http')) {
+            throw new Error('URL must use http or https protocol');
+          }
+          targetOrigin = parsed.origin;
+        } catch (error) {
+          console.error(chalk.red('Invalid target origin:'), options.targetOrigin);
+          process.exit(1);
+        }
+      }
+
+      const config: RedirectExportConfig = {
+        inputPath: options.input,
+        outputDir: options.output || generateRedirectExportDirname(),
+        formats,
+        collapseMin: options.collapse ? parseInt(options.collapseMin, 10) : 0,
+        relative: options.relative,
+        targetOrigin,
+        verbose: options.verbose,
+      };
+
+      if (isNaN(config.collapseMin) || config.collapseMin < 0) {
+        console.error(chalk.red('Invalid collapse-min value'));
+        process.exit(1);
+      }
+
+      const fse = await import('fs-extra');
+      if (!await fse.default.pathExists(config.inputPath)) {
+        console.error(chalk.red('Input file not found:'), config.inputPath);
+        process.exit(1);
+      }
+
+      await exportRedirects(config);
+    } catch (error) {
+      console.error(chalk.red('Redirect export failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// Options not given on the command line come from the project config file:
+// CLI flags, then the profile's section and url, then the top-level section, then defaults
+program.hook('preAction', async (_program, actionCommand) => {
+  const command = actionCommand.name();
+  if (command !== 'crawl' && command !== 'validate') {
+    return;
+  }
+
+  try {
+    const { config: configOption, sourceProfile, destinationProfile } = program.opts();
+    if (configOption === false) {
+      return;
+    }
+    const fse = await import('fs-extra');
+    if (typeof configOption === 'string' && !await fse.default.pathExists(configOption)) {
+      console.error(chalk.red('Config file not found:'), configOption);
+      process.exit(1);
+    }
+    const configPath = typeof configOption === 'string' ? configOption : await findProjectConfig(process.cwd());
+    if (!configPath) {
+      if (sourceProfile || destinationProfile) {
+        console.error(chalk.red('Profiles need a project config file'));
+        process.exit(1);
+      }
+      return;
+    }
+
+    const projectConfig = await loadProjectConfig(configPath, { crawl: crawlCommand, validate: validateCommand });
+    const profile = command === 'crawl'
+      ? sourceProfile ?? projectConfig.source
+      : destinationProfile ?? projectConfig.destination;
+    const settings = resolveProjectSettings(projectConfig, configPath, command, profile);
+    const applied = applyProjectSettings(actionCommand, settings);
+
+    if (actionCommand.opts().verbose) {
+      console.log(
+        chalk.blue('Config:'),
+        `${configPath}${profile ? ` (profile: ${profile})` : ''}`,
+        chalk.gray(applied.length > 0 ? `- ${applied.join(', ')}` : '')
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red((error as Error).message));
+    process.exit(1);
+  }
+});
+
 // Parse arguments
 program.parse();
 
@@ -0,0 +1,387 @@
+import path from 'node:path';
+import chalk from 'chalk';
+import fse from 'fs-extra';
+import type {
+  RedirectChain,
+  RedirectExport,
+  RedirectExportConfig,
+  RedirectRule,
+  ValidationResult,
+} from './types/index.js';
+import { loadValidationReport } from './validator.js';
+import { parseCsvRules } from './utils/url-map.js';
+import { isSuccessStatus } from './utils/http.js';
+import { REDIRECT_WRITERS } from './exporters/index.js';
+import { splitRules } from './exporters/rules.js';
+
+/**
+ * Number of entries shown per section without verbose
+ */
+const MAX_ENTRIES_SHOWN = 20;
+
+/**
+ * Issue types that mean the destination is not a page worth redirecting to
+ */
+const BROKEN_DESTINATION_ISSUES: Array<ValidationResult['issues'][number]['type']> = [
+  'not_found',
+  'soft_404',
+  'redirect_loop',
+];
+
+/**
+ * A source path and the target it should redirect to
+ */
+interface RedirectPair {
+  from: string;
+  to: string;
+}
+
+/**
+ * Source/destination pairs read from the input file
+ */
+interface ExportInput {
+  pairs: RedirectPair[];
+  skipped: Array<{ from: string; reason: string }>;
+  sourceUrl: string | null;
+}
+
+/**
+ * Turns a validation report or a CSV of pairs into redirect rules, collapses
+ * repetitive rules into prefix rules, resolves chains and writes one file per format
+ */
+export async function exportRedirects(config: RedirectExportConfig): Promise<RedirectExport> {
+  const log = config.verbose ? console.log : () => {};
+
+  const input = await loadPairs(config);
+  log(chalk.blue('Pairs read:'), input.pairs.length + input.skipped.length);
+
+  // First target wins; later ones are reported as conflicts
+  const targets = new Map<string, string[]>();
+  for (const pair of input.pairs) {
+    const list = targets.get(pair.from) ?? [];
+    if (!list.includes(pair.to)) {
+      list.push(pair.to);
+    }
+    targets.set(pair.from, list);
+  }
+  const conflicts = [...targets.entries()]
+    .filter(([, list]) => list.length > 1)
+    .map(([from, list]) => ({ from, targets: list }));
+
+  // Paths that keep their path on the same site need no rule, but still block collapsing
+  const known = new Map([...targets.entries()].map(([from, list]) => [from, list[0]]));
+  const redirects = new Map([...known.entries()].filter(([from, to]) => to !== from));
+  const unchanged = known.size - redirects.size;
+
+  const collapsed = config.collapseMin > 0 ? collapseRules(redirects, known, config.collapseMin) : [];
+  const covered = new Set(collapsed.flatMap(group => group.paths));
+  const rules: RedirectRule[] = [
+    ...[...redirects.entries()]
+      .filter(([from]) => !covered.has(from))
+      .map(([from, to]) => ({ type: 'exact' as const, from, to, covers: 1 }))
+      .sort((a, b) => a.from.localeCompare(b.from)),
+    ...collapsed.map(group => group.rule),
+  ];
+  log(chalk.blue('Prefix rules:'), collapsed.length, chalk.gray(`(covering ${covered.size} pairs)`));
+
+  const chains = resolveChains(rules);
+  const loops = new Set(chains.filter(c => c.loop).map(c => c.from));
+  const finalRules = splitRules(rules.filter(rule => !loops.has(rule.from)));
+
+  const exported: RedirectExport = {
+    inputPath: config.inputPath,
+    sourceUrl: input.sourceUrl,
+    rules: [...finalRules.exact, ...finalRules.prefix],
+    counts: {
+      pairs: input.pairs.length,
+      unchanged,
+      skipped: input.skipped.length,
+      exact: finalRules.exact.length,
+      prefix: finalRules.prefix.length,
+    },
+    conflicts,
+    chains,
+    skipped: input.skipped,
+    files: [],
+    exportedAt: new Date().toISOString(),
+    config,
+  };
+
+  await fse.ensureDir(config.outputDir);
+  for (const format of config.formats) {
+    const writer = REDIRECT_WRITERS[format];
+    const filePath = path.join(config.outputDir, writer.fileName);
+    await fse.writeFile(filePath, writer.render(exported), 'utf8');
+    exported.files.push(filePath);
+  }
+
+  printSummary(exported, config);
+
+  return exported;
+}
+
+/**
+ * Reads pairs from a validation report (.json) or a mapping CSV
+ */
+async function loadPairs(config: RedirectExportConfig): Promise<ExportInput> {
+  if (path.extname(config.inputPath).toLowerCase() === '.json') {
+    const report = await loadValidationReport(config.inputPath);
+    const sourceOrigin = new URL(report.sourceUrl).origin;
+    const destinationOrigin = new URL(report.destinationUrl).origin;
+    const input: ExportInput = { pairs: [], skipped: [], sourceUrl: report.sourceUrl };
+
+    for (const result of report.results) {
+      const reason = skipReason(result);
+      if (reason) {
+        input.skipped.push({ from: result.sourcePath, reason });
+        continue;
+      }
+      const to = formatTarget(landingUrl(result), sourceOrigin, destinationOrigin, config);
+      input.pairs.push({ from: result.sourcePath, to });
+    }
+    return input;
+  }
+
+  const text = await fse.readFile(config.inputPath, 'utf8');
+  const input: ExportInput = { pairs: [], skipped: [], sourceUrl: null };
+  for (const rule of parseCsvRules(text, path.basename(config.inputPath))) {
+    const from = toPath(rule.from);
+    if (rule.type === 'pattern') {
+      input.skipped.push({ from: rule.from, reason: `pattern rule at ${rule.location} (convert it by hand)` });
+    } else if (from.includes('?')) {
+      input.skipped.push({ from, reason: 'query string (server rules match on the path only)' });
+    } else {
+      input.pairs.push({ from, to: formatTarget(rule.to, null, null, config) });
+    }
+  }
+  return input;
+}
+
+/**
+ * Why a report result cannot become a redirect, or null if it can
+ */
+function skipReason(result: ValidationResult): string | null {
+  if (result.sourcePath.includes('?')) {
+    return 'query string (server rules match on the path only)';
+  }
+  const broken = result.issues.find(issue => BROKEN_DESTINATION_ISSUES.includes(issue.type));
+  if (broken) {
+    return `destination ${broken.type}`;
+  }
+  if (result.destinationStatusCode === null || !isSuccessStatus(result.destinationStatusCode)) {
+    return `destination status ${result.destinationStatusCode ?? 'error'}`;
+  }
+  return null;
+}
+
+/**
+ * Where the destination request ended up: the observed redirect target, or the URL itself
+ */
+function landingUrl(result: ValidationResult): string {
+  const redirect = result.issues.find(issue => issue.type === 'redirect');
+  const finalUrl = redirect?.details?.finalUrl;
+  return typeof finalUrl === 'string' ? finalUrl : result.destinationUrl;
+}
+
+/**
+ * Formats a redirect target. Targets on the source site (or all targets with
+ * --relative) become paths; --target-origin replaces the destination origin
+ * and is prepended to path targets.
+ */
+function formatTarget(
+  target: string,
+  sourceOrigin: string | null,
+  destinationOrigin: string | null,
+  config: RedirectExportConfig
+): string {
+  let url: URL;
+  try {
+    url = new URL(target);
+    if (config.targetOrigin && url.origin === destinationOrigin) {
+      url = new URL(url.pathname + url.search + url.hash, config.targetOrigin);
+    }
+  } catch {
+    if (!config.targetOrigin || config.relative) {
+      return target;
+    }
+    url = new URL(target, config.targetOrigin);
+  }
+
+  return config.relative || url.origin === sourceOrigin ? url.pathname + url.search + url.hash : url.href;
+}
+
+/**
+ * Reduces a full URL to its path and query (paths are returned unchanged)
+ */
+function toPath(value: string): string {
+  try {
+    const parsed = new URL(value);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * The most general prefix rewrite that turns `from` into `to`, keeping a common
+ * tail of whole path segments ("/blog/a/b" -> "/articles/a/b" gives "/blog/" -> "/articles/")
+ */
+function prefixRewriteOf(from: string, to: string): { from: string; to: string } | null {
+  let length = 0;
+  while (length < from.length && length < to.length && from[from.length - 1 - length] === to[to.length - 1 - length]) {
+    length++;
+  }
+  // The kept tail must start right after a "/" in both
+  while (length > 0 && (from[from.length - length - 1] !== '/' || to[to.length - length - 1] !== '/')) {
+    length--;
+  }
+  return length > 0 ? { from: from.slice(0, from.length - length), to: to.slice(0, to.length - length) } : null;
+}
+
+/**
+ * Groups redirects that share a prefix rewrite and collapses a group into one
+ * prefix rule when it is safe: it has at least `minimum` pairs, no source path
+ * under the prefix keeps its path, none of its targets is itself a source
+ * path, and the rule would not apply to its own targets
+ */
+function collapseRules(
+  redirects: Map<string, string>,
+  known: Map<string, string>,
+  minimum: number
+): Array<{ rule: RedirectRule; paths: string[] }> {
+  const groups = new Map<string, { from: string; to: string; paths: string[] }>();
+  for (const [from, to] of redirects) {
+    const rewrite = prefixRewriteOf(from, to);
+    if (!rewrite) continue;
+    const key = `${rewrite.from}\n${rewrite.to}`;
+    const group = groups.get(key) ?? { ...rewrite, paths: [] };
+    group.paths.push(from);
+    groups.set(key, group);
+  }
+
+  const collapsed: Array<{ rule: RedirectRule; paths: string[] }> = [];
+  for (const group of groups.values()) {
+    if (group.paths.length < minimum) continue;
+    // Paths with a different target stay as exact rules, which every format matches first
+    const noUnchangedPathBelow = [...known.keys()].every(p => !p.startsWith(group.from) || redirects.has(p));
+    const targetsAreFinal = group.paths.every(p => !known.has(redirects.get(p)!));
+    // "/a/" -> "/a/b/" would apply to its own targets again
+    const selfApplying = group.to.startsWith(group.from);
+    if (noUnchangedPathBelow && targetsAreFinal && !selfApplying) {
+      collapsed.push({
+        rule: { type: 'prefix', from: group.from, to: group.to, covers: group.paths.length },
+        paths: group.paths,
+      });
+    }
+  }
+  return collapsed;
+}
+
+/**
+ * Follows each rule's target through the other rules. Chains are flattened in
+ * place to their final target; loops are returned with loop set and left for
+ * the caller to drop.
+ */
+function resolveChains(rules: RedirectRule[]): RedirectChain[] {
+  const { exact, prefix } = splitRules(rules);
+  const exactTargets = new Map(exact.map(rule => [rule.from, rule.to]));
+
+  // One step through the rules for a path target (absolute URLs leave the site)
+  const nextTarget = (target: string, prefixOnly: boolean): string | undefined => {
+    if (!target.startsWith('/')) return undefined;
+    const exactTarget = prefixOnly ? undefined : exactTargets.get(target);
+    if (exactTarget !== undefined) return exactTarget;
+    const rule = prefix.find(r => target.startsWith(r.from));
+    return rule ? rule.to + target.slice(rule.from.length) : undefined;
+  };
+
+  const chains: RedirectChain[] = [];
+  for (const rule of rules) {
+    // A prefix rule's target is itself a prefix, so only other prefix rules can apply to it
+    const prefixOnly = rule.type === 'prefix';
+    const visited = new Set([rule.from]);
+    const hops = [rule.to];
+    let loop = false;
+
+    for (let next = nextTarget(rule.to, prefixOnly); next !== undefined; next = nextTarget(next, prefixOnly)) {
+      visited.add(hops[hops.length - 1]);
+      hops.push(next);
+      // Prefix rules can keep growing a path without repeating it, so cap the length too
+      if (visited.has(next) || hops.length > rules.length + 1) {
+        loop = true;
+        break;
+      }
+    }
+
+    if (hops.length > 1) {
+      chains.push({ from: rule.from, hops, loop });
+    }
+    if (!loop) {
+      rule.to = hops[hops.length - 1];
+    }
+  }
+  return chains;
+}
+
+/**
+ * Prints a list of entries, shortened unless verbose
+ */
+function printSection(title: string, lines: string[], color: (text: string) => string, verbose: boolean): void {
+  if (lines.length === 0) return;
+  console.log('');
+  console.log(chalk.bold(`${title} (${lines.length}):`));
+  const maxToShow = verbose ? lines.length : Math.min(lines.length, MAX_ENTRIES_SHOWN);
+  for (const line of lines.slice(0, maxToShow)) {
+    console.log(color(`  ${line}`));
+  }
+  if (lines.length > maxToShow) {
+    console.log(chalk.gray(`  ... and ${lines.length - maxToShow} more (use -v to see all)`));
+  }
+}
+
+/**
+ * Prints summary to console
+ */
+function printSummary(exported: RedirectExport, config: RedirectExportConfig): void {
+  const { counts } = exported;
+  const loops = exported.chains.filter(c => c.loop);
+  const chains = exported.chains.filter(c => !c.loop);
+
+  console.log('');
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.blue.bold('Redirect Export'));
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.white('Pairs:'), counts.pairs);
+  console.log(chalk.white('Unchanged paths (no rule needed):'), counts.unchanged);
+  console.log(chalk.yellow('Skipped:'), counts.skipped);
+  console.log(chalk.green('Exact rules:'), counts.exact);
+  console.log(chalk.green('Prefix rules:'), counts.prefix);
+  console.log(chalk.yellow('Conflicts (first target kept):'), exported.conflicts.length);
+  console.log(chalk.yellow('Chains flattened:'), chains.length);
+  console.log(chalk.red('Loops (dropped):'), loops.length);
+  console.log('');
+  for (const file of exported.files) {
+    console.log(chalk.blue('Rules:'), file);
+  }
+  console.log(chalk.blue('═'.repeat(60)));
+
+  printSection(
+    'Conflicts',
+    exported.conflicts.map(c => `${c.from} → ${c.targets.join(' | ')}`),
+    chalk.yellow,
+    config.verbose
+  );
+  printSection('Chains', chains.map(c => `${c.from} → ${c.hops.join(' → ')}`), chalk.yellow, config.verbose);
+  printSection('Loops', loops.map(c => `${c.from} → ${c.hops.join(' → ')}`), chalk.red, config.verbose);
+  if (config.verbose) {
+    printSection('Skipped', exported.skipped.map(s => `${s.from} (${s.reason})`), chalk.gray, true);
+  }
+}
+
+/**
+ * Generates a default output directory name based on timestamp
+ */
+export function generateRedirectExportDirname(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `redirects-${timestamp}`;
+}
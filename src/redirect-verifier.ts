@@ -0,0 +1,349 @@
+import chalk from 'chalk';
+import fse from 'fs-extra';
+import type {
+  CrawlerOutput,
+  RedirectCheckResult,
+  RedirectIssue,
+  RedirectReport,
+  RedirectSummary,
+  RedirectVerifierConfig,
+} from './types/index.js';
+import { traceRedirects, isSuccessStatus } from './utils/http.js';
+import { joinUrl, sameUrl } from './utils/html-parser.js';
+import { createLimiter, formatDuration } from './utils/concurrency.js';
+import { loadUrlMap, resolveMappedUrl, type UrlMap } from './utils/url-map.js';
+
+/**
+ * Status codes that count as permanent redirects
+ */
+const PERMANENT_REDIRECT_STATUSES = [301, 308];
+
+/**
+ * Requests every crawled source URL without following redirects and checks
+ * that each chain permanently redirects to the expected destination
+ */
+export async function verifyRedirects(config: RedirectVerifierConfig): Promise<RedirectReport> {
+  const startTime = Date.now();
+  const log = config.verbose ? console.log : () => {};
+
+  // Load crawler output
+  log(chalk.blue('Loading crawler output:'), config.inputPath);
+  const crawlerOutput: CrawlerOutput = await fse.readJson(config.inputPath);
+
+  let urlMap: UrlMap | null = null;
+  if (config.mapPath) {
+    urlMap = await loadUrlMap(config.mapPath);
+    log(chalk.blue('URL map:'), config.mapPath);
+  }
+
+  console.log(chalk.blue('Source:'), crawlerOutput.sourceUrl);
+  console.log(chalk.blue('Destination:'), config.destinationUrl);
+  console.log(chalk.blue('URLs to verify:'), crawlerOutput.urls.length);
+  console.log(chalk.blue('Max hops:'), config.maxHops);
+  console.log('');
+
+  const limiter = createLimiter(config.concurrency);
+  const results: RedirectCheckResult[] = [];
+
+  let processed = 0;
+  const total = crawlerOutput.urls.length;
+
+  await Promise.all(
+    crawlerOutput.urls.map(crawledUrl =>
+      limiter(async () => {
+        const result = await verifyRedirect(crawledUrl.url, crawledUrl.path, config, urlMap);
+
+        results.push(result);
+        processed++;
+
+        const statusIcon = result.status === 'ok'
+          ? chalk.green('✓')
+          : result.status === 'warning'
+          ? chalk.yellow('⚠')
+          : chalk.red('✗');
+
+        log(
+          statusIcon,
+          chalk.gray(`[${result.hops.map(h => h.statusCode).join(' → ') || 'ERR'}]`),
+          chalk.white(result.sourcePath),
+          result.issues.length > 0
+            ? chalk.gray(`- ${result.issues.map(i => i.type).join(', ')}`)
+            : ''
+        );
+
+        if (processed % 10 === 0 || config.verbose) {
+          console.log(
+            chalk.cyan(`Progress: ${processed}/${total} (${Math.round(processed / total * 100)}%)`)
+          );
+        }
+
+        return result;
+      })
+    )
+  );
+
+  const durationMs = Date.now() - startTime;
+  const summary = calculateSummary(results, durationMs);
+
+  const report: RedirectReport = {
+    sourceUrl: crawlerOutput.sourceUrl,
+    destinationUrl: config.destinationUrl,
+    summary,
+    results: results.sort((a, b) => {
+      // Sort errors first, then warnings, then ok
+      const order = { error: 0, warning: 1, ok: 2 };
+      return order[a.status] - order[b.status];
+    }),
+    verifiedAt: new Date().toISOString(),
+    config,
+  };
+
+  await fse.writeJson(config.outputPath, report, { spaces: 2 });
+
+  printSummary(summary, config.outputPath);
+  printIssues(report.results, config.verbose);
+
+  return report;
+}
+
+/**
+ * Traces the redirect chain of one source URL and checks where it ends
+ */
+async function verifyRedirect(
+  sourceUrl: string,
+  sourcePath: string,
+  config: RedirectVerifierConfig,
+  urlMap: UrlMap | null
+): Promise<RedirectCheckResult> {
+  const issues: RedirectIssue[] = [];
+  let status: 'ok' | 'warning' | 'error' = 'ok';
+
+  let expectedUrl = joinUrl(config.destinationUrl, sourcePath);
+  let mapping: Pick<RedirectCheckResult, 'mappingRule'> = {};
+  if (urlMap) {
+    const resolved = resolveMappedUrl(urlMap, sourcePath, config.destinationUrl);
+    expectedUrl = resolved.destinationUrl;
+    mapping = { mappingRule: resolved.rule };
+  }
+
+  const trace = await traceRedirects(sourceUrl, { timeout: config.timeout });
+  const hops = trace.hops;
+  const last = hops[hops.length - 1];
+  const redirects = hops.filter(h => h.location !== null);
+
+  const buildResult = (): RedirectCheckResult => ({
+    sourceUrl,
+    sourcePath,
+    expectedUrl,
+    finalUrl: last?.url ?? sourceUrl,
+    finalStatusCode: trace.error && !trace.loop ? null : last?.statusCode ?? null,
+    hops,
+    status,
+    issues,
+    ...mapping,
+  });
+
+  if (trace.loop) {
+    issues.push({
+      type: 'redirect_loop',
+      message: `Redirect loop back to ${last.location ? new URL(last.location, last.url).href : last.url}`,
+    });
+    status = 'error';
+    return buildResult();
+  }
+
+  if (trace.error) {
+    issues.push({ type: 'error', message: trace.error });
+    status = 'error';
+    return buildResult();
+  }
+
+  if (redirects.length === 0) {
+    issues.push({
+      type: 'no_redirect',
+      message: `Source answered ${last.statusCode} without redirecting`,
+    });
+    status = 'error';
+    return buildResult();
+  }
+
+  // Every hop must be permanent for link equity to pass
+  const temporary = redirects.filter(h => !PERMANENT_REDIRECT_STATUSES.includes(h.statusCode));
+  if (temporary.length > 0) {
+    issues.push({
+      type: 'temporary_redirect',
+      message: `Non-permanent redirect: ${temporary.map(h => h.statusCode).join(', ')} (301 or 308 required)`,
+      details: { hops: temporary.map(h => ({ url: h.url, statusCode: h.statusCode })) },
+    });
+    status = 'error';
+  }
+
+  if (redirects.length > config.maxHops) {
+    issues.push({
+      type: 'too_many_hops',
+      message: `Redirect chain has ${redirects.length} hops (max ${config.maxHops})`,
+    });
+    status = status === 'ok' ? 'warning' : status;
+  }
+
+  if (!sameUrl(last.url, expectedUrl)) {
+    const finalPath = new URL(last.url).pathname;
+    const expectedPath = new URL(expectedUrl).pathname;
+    if (finalPath === '/' && expectedPath !== '/') {
+      issues.push({
+        type: 'homepage_redirect',
+        message: `Redirects to the homepage instead of ${expectedUrl}`,
+        details: { finalUrl: last.url },
+      });
+    } else {
+      issues.push({
+        type: 'wrong_target',
+        message: `Redirects to ${last.url} instead of ${expectedUrl}`,
+        details: { finalUrl: last.url },
+      });
+    }
+    status = 'error';
+  }
+
+  if (!isSuccessStatus(last.statusCode)) {
+    issues.push({
+      type: 'broken_target',
+      message: `Redirect target answered ${last.statusCode}`,
+    });
+    status = 'error';
+  }
+
+  return buildResult();
+}
+
+/**
+ * Calculates summary statistics from results
+ */
+function calculateSummary(results: RedirectCheckResult[], durationMs: number): RedirectSummary {
+  const summary: RedirectSummary = {
+    totalUrls: results.length,
+    okUrls: 0,
+    warningUrls: 0,
+    errorUrls: 0,
+    noRedirectCount: 0,
+    temporaryRedirectCount: 0,
+    wrongTargetCount: 0,
+    homepageRedirectCount: 0,
+    tooManyHopsCount: 0,
+    redirectLoopCount: 0,
+    brokenTargetCount: 0,
+    durationMs,
+  };
+
+  for (const result of results) {
+    switch (result.status) {
+      case 'ok':
+        summary.okUrls++;
+        break;
+      case 'warning':
+        summary.warningUrls++;
+        break;
+      case 'error':
+        summary.errorUrls++;
+        break;
+    }
+
+    for (const issue of result.issues) {
+      switch (issue.type) {
+        case 'no_redirect':
+          summary.noRedirectCount++;
+          break;
+        case 'temporary_redirect':
+          summary.temporaryRedirectCount++;
+          break;
+        case 'wrong_target':
+          summary.wrongTargetCount++;
+          break;
+        case 'homepage_redirect':
+          summary.homepageRedirectCount++;
+          break;
+        case 'too_many_hops':
+          summary.tooManyHopsCount++;
+          break;
+        case 'redirect_loop':
+          summary.redirectLoopCount++;
+          break;
+        case 'broken_target':
+          summary.brokenTargetCount++;
+          break;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Prints summary to console
+ */
+function printSummary(summary: RedirectSummary, outputPath: string): void {
+  console.log('');
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.blue.bold('Redirect Verification Complete'));
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.white('Total URLs:'), summary.totalUrls);
+  console.log(chalk.green('OK:'), summary.okUrls);
+  console.log(chalk.yellow('Warnings:'), summary.warningUrls);
+  console.log(chalk.red('Errors:'), summary.errorUrls);
+  console.log('');
+  console.log(chalk.white('Issue breakdown:'));
+  console.log(chalk.red('  Not redirected:'), summary.noRedirectCount);
+  console.log(chalk.red('  Temporary (302/307):'), summary.temporaryRedirectCount);
+  console.log(chalk.red('  Wrong target:'), summary.wrongTargetCount);
+  console.log(chalk.red('  To homepage:'), summary.homepageRedirectCount);
+  console.log(chalk.red('  Loops:'), summary.redirectLoopCount);
+  console.log(chalk.red('  Broken target:'), summary.brokenTargetCount);
+  console.log(chalk.yellow('  Too many hops:'), summary.tooManyHopsCount);
+  console.log('');
+  console.log(chalk.blue('Duration:'), formatDuration(summary.durationMs));
+  console.log(chalk.blue('Report:'), outputPath);
+  console.log(chalk.blue('═'.repeat(60)));
+}
+
+/**
+ * Prints issues to console
+ */
+function printIssues(results: RedirectCheckResult[], verbose: boolean): void {
+  const errors = results.filter(r => r.status === 'error');
+  const warnings = results.filter(r => r.status === 'warning');
+
+  if (errors.length > 0) {
+    console.log('');
+    console.log(chalk.red.bold(`Errors (${errors.length}):`));
+    const maxToShow = verbose ? errors.length : Math.min(errors.length, 10);
+    for (let i = 0; i < maxToShow; i++) {
+      const error = errors[i];
+      console.log(chalk.red(`  ${error.sourcePath}`));
+      for (const issue of error.issues) {
+        console.log(chalk.gray(`    - ${issue.message}`));
+      }
+    }
+    if (errors.length > maxToShow) {
+      console.log(chalk.gray(`  ... and ${errors.length - maxToShow} more (use -v to see all)`));
+    }
+  }
+
+  if (warnings.length > 0 && verbose) {
+    console.log('');
+    console.log(chalk.yellow.bold(`Warnings (${warnings.length}):`));
+    for (const warning of warnings) {
+      console.log(chalk.yellow(`  ${warning.sourcePath}`));
+      for (const issue of warning.issues) {
+        console.log(chalk.gray(`    - ${issue.message}`));
+      }
+    }
+  }
+}
+
+/**
+ * Generates a default output filename based on timestamp
+ */
+export function generateRedirectReportFilename(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `redirect-report-${timestamp}.json`;
+}
@@ -0,0 +1,329 @@
+import chalk from 'chalk';
+import fse from 'fs-extra';
+import type {
+  ReportDiff,
+  ReportDiffConfig,
+  ReportDiffEntry,
+  SummaryDelta,
+  ValidationReport,
+  ValidationResult,
+  ValidationSummary,
+} from './types/index.js';
+import { loadValidationReport } from './validator.js';
+
+/**
+ * Exit code when --fail-on-regression finds regressions (same as validate's threshold failures)
+ */
+export const EXIT_REGRESSIONS_FOUND = 2;
+
+/**
+ * Severity order of result statuses
+ */
+const STATUS_RANK: Record<ValidationResult['status'], number> = { ok: 0, warning: 1, error: 2 };
+
+/**
+ * Number of entries shown per section without verbose
+ */
+const MAX_ENTRIES_SHOWN = 20;
+
+/**
+ * Compares two validation reports, prints the differences and writes
+ * the requested JSON and Markdown outputs
+ */
+export async function diffReports(config: ReportDiffConfig): Promise<ReportDiff> {
+  const oldReport = await loadValidationReport(config.oldPath);
+  const newReport = await loadValidationReport(config.newPath);
+
+  const diff = compareReports(oldReport, newReport, config.oldPath, config.newPath);
+
+  if (config.jsonPath) {
+    await fse.writeJson(config.jsonPath, diff, { spaces: 2 });
+  }
+  if (config.markdownPath) {
+    await fse.writeFile(config.markdownPath, renderDiffMarkdown(diff), 'utf8');
+  }
+
+  printDiff(diff, config);
+
+  return diff;
+}
+
+/**
+ * Matches results by source path and classifies what changed
+ */
+function compareReports(
+  oldReport: ValidationReport,
+  newReport: ValidationReport,
+  oldPath: string,
+  newPath: string
+): ReportDiff {
+  const oldResults = new Map(oldReport.results.map(r => [r.sourcePath, r]));
+  const newResults = new Map(newReport.results.map(r => [r.sourcePath, r]));
+  const paths = [...new Set([...oldResults.keys(), ...newResults.keys()])];
+
+  const entries: ReportDiffEntry[] = [];
+  for (const sourcePath of paths) {
+    const entry = diffResult(sourcePath, oldResults.get(sourcePath), newResults.get(sourcePath));
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+
+  // Regressions first, then by kind of change, then by path
+  const changeOrder = { regressed: 0, added: 1, changed: 2, fixed: 3, removed: 4 };
+  entries.sort((a, b) =>
+    Number(b.regression) - Number(a.regression) ||
+    changeOrder[a.change] - changeOrder[b.change] ||
+    a.sourcePath.localeCompare(b.sourcePath)
+  );
+
+  const count = (predicate: (entry: ReportDiffEntry) => boolean) => entries.filter(predicate).length;
+
+  return {
+    old: { path: oldPath, destinationUrl: oldReport.destinationUrl, validatedAt: oldReport.validatedAt },
+    new: { path: newPath, destinationUrl: newReport.destinationUrl, validatedAt: newReport.validatedAt },
+    counts: {
+      regressed: count(e => e.change === 'regressed'),
+      fixed: count(e => e.change === 'fixed'),
+      changed: count(e => e.change === 'changed'),
+      added: count(e => e.change === 'added'),
+      removed: count(e => e.change === 'removed'),
+      statusCodeChanges: count(isStatusCodeChange),
+      regressions: count(e => e.regression),
+    },
+    summaryDeltas: diffSummaries(oldReport, newReport),
+    entries,
+    diffedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Classifies the change for one source path, or returns null if nothing changed.
+ * A regression is a worse status, a new issue type, or a new path that is not ok.
+ */
+function diffResult(
+  sourcePath: string,
+  oldResult: ValidationResult | undefined,
+  newResult: ValidationResult | undefined
+): ReportDiffEntry | null {
+  const oldTypes = new Set(oldResult?.issues.map(i => i.type) ?? []);
+  const newTypes = new Set(newResult?.issues.map(i => i.type) ?? []);
+
+  const base = {
+    sourcePath,
+    oldStatus: oldResult?.status ?? null,
+    newStatus: newResult?.status ?? null,
+    oldStatusCode: oldResult?.destinationStatusCode ?? null,
+    newStatusCode: newResult?.destinationStatusCode ?? null,
+    addedIssueTypes: [...newTypes].filter(t => !oldTypes.has(t)),
+    removedIssueTypes: [...oldTypes].filter(t => !newTypes.has(t)),
+  };
+
+  if (!oldResult) {
+    return { ...base, change: 'added', regression: newResult!.status !== 'ok' };
+  }
+  if (!newResult) {
+    return { ...base, change: 'removed', regression: false };
+  }
+
+  const rankDelta = STATUS_RANK[newResult.status] - STATUS_RANK[oldResult.status];
+  if (rankDelta > 0) {
+    return { ...base, change: 'regressed', regression: true };
+  }
+  if (rankDelta < 0) {
+    return { ...base, change: 'fixed', regression: false };
+  }
+
+  const typesChanged = base.addedIssueTypes.length > 0 || base.removedIssueTypes.length > 0;
+  if (typesChanged || base.oldStatusCode !== base.newStatusCode) {
+    return { ...base, change: 'changed', regression: base.addedIssueTypes.length > 0 };
+  }
+
+  return null;
+}
+
+/**
+ * Computes the summary counters that changed, leaving out those that
+ * describe the run rather than the site (duration, throttling)
+ */
+function diffSummaries(oldReport: ValidationReport, newReport: ValidationReport): SummaryDelta[] {
+  const oldSummary = oldReport.summary;
+  const newSummary = newReport.summary;
+  // Reports written by older versions may lack newer counters
+  const fields = [...new Set([...Object.keys(oldSummary), ...Object.keys(newSummary)])] as Array<keyof ValidationSummary>;
+
+  return fields
+    .filter(field => field !== 'durationMs' && field !== 'throttledCount')
+    .map(field => {
+      const oldValue = oldSummary[field] ?? 0;
+      const newValue = newSummary[field] ?? 0;
+      return { field, old: oldValue, new: newValue, delta: newValue - oldValue };
+    })
+    .filter(d => d.delta !== 0);
+}
+
+/**
+ * Whether a path present in both reports changed destination status code
+ */
+function isStatusCodeChange(entry: ReportDiffEntry): boolean {
+  return entry.oldStatus !== null && entry.newStatus !== null && entry.oldStatusCode !== entry.newStatusCode;
+}
+
+/**
+ * Sections shown in terminal and Markdown output
+ */
+function diffSections(diff: ReportDiff): Array<{ title: string; entries: ReportDiffEntry[] }> {
+  return [
+    { title: 'Newly broken', entries: diff.entries.filter(e => e.change === 'regressed') },
+    { title: 'Fixed', entries: diff.entries.filter(e => e.change === 'fixed') },
+    {
+      title: 'Changed issue types',
+      entries: diff.entries.filter(e =>
+        e.change === 'changed' && (e.addedIssueTypes.length > 0 || e.removedIssueTypes.length > 0)
+      ),
+    },
+    { title: 'Status code changes', entries: diff.entries.filter(isStatusCodeChange) },
+    { title: 'Added paths', entries: diff.entries.filter(e => e.change === 'added') },
+    { title: 'Removed paths', entries: diff.entries.filter(e => e.change === 'removed') },
+  ];
+}
+
+/**
+ * Describes an entry's status, code and issue type changes on one line
+ */
+function describeEntry(entry: ReportDiffEntry): string {
+  const parts = [
+    `${entry.oldStatus ?? '-'} → ${entry.newStatus ?? '-'}`,
+    `[${formatStatusCodes(entry)}]`,
+  ];
+  if (entry.addedIssueTypes.length > 0) {
+    parts.push(`+${entry.addedIssueTypes.join(', +')}`);
+  }
+  if (entry.removedIssueTypes.length > 0) {
+    parts.push(`-${entry.removedIssueTypes.join(', -')}`);
+  }
+  return parts.join('  ');
+}
+
+/**
+ * Formats old → new status codes ('-' when the path is missing, ERR when the fetch failed)
+ */
+function formatStatusCodes(entry: ReportDiffEntry): string {
+  const code = (status: string | null, statusCode: number | null) =>
+    status === null ? '-' : statusCode ?? 'ERR';
+  return `${code(entry.oldStatus, entry.oldStatusCode)} → ${code(entry.newStatus, entry.newStatusCode)}`;
+}
+
+/**
+ * Formats a signed delta
+ */
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+/**
+ * Prints the diff to console
+ */
+function printDiff(diff: ReportDiff, config: ReportDiffConfig): void {
+  console.log('');
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.blue.bold('Report Diff'));
+  console.log(chalk.blue('═'.repeat(60)));
+  console.log(chalk.white('Old:'), diff.old.path, chalk.gray(`(${diff.old.validatedAt})`));
+  console.log(chalk.white('New:'), diff.new.path, chalk.gray(`(${diff.new.validatedAt})`));
+  console.log('');
+  console.log(chalk.red('Regressions:'), diff.counts.regressions);
+  console.log(chalk.red('  Newly broken:'), diff.counts.regressed);
+  console.log(chalk.green('  Fixed:'), diff.counts.fixed);
+  console.log(chalk.yellow('  Changed:'), diff.counts.changed);
+  console.log(chalk.yellow('  Status code changes:'), diff.counts.statusCodeChanges);
+  console.log(chalk.white('  Added paths:'), diff.counts.added);
+  console.log(chalk.white('  Removed paths:'), diff.counts.removed);
+
+  if (diff.summaryDeltas.length > 0) {
+    console.log('');
+    console.log(chalk.white('Summary changes:'));
+    for (const d of diff.summaryDeltas) {
+      const color = d.field === 'okUrls' ? (d.delta > 0 ? chalk.green : chalk.red) : (d.delta > 0 ? chalk.red : chalk.green);
+      console.log(`  ${d.field}:`, d.old, '→', d.new, color(`(${formatDelta(d.delta)})`));
+    }
+  }
+  console.log(chalk.blue('═'.repeat(60)));
+
+  for (const section of diffSections(diff)) {
+    if (section.entries.length === 0) continue;
+    console.log('');
+    console.log(chalk.bold(`${section.title} (${section.entries.length}):`));
+    const maxToShow = config.verbose ? section.entries.length : Math.min(section.entries.length, MAX_ENTRIES_SHOWN);
+    for (const entry of section.entries.slice(0, maxToShow)) {
+      const color = entry.regression ? chalk.red : entry.change === 'fixed' ? chalk.green : chalk.white;
+      console.log(color(`  ${entry.sourcePath}`), chalk.gray(describeEntry(entry)));
+    }
+    if (section.entries.length > maxToShow) {
+      console.log(chalk.gray(`  ... and ${section.entries.length - maxToShow} more (use -v to see all)`));
+    }
+  }
+
+  if (config.jsonPath || config.markdownPath) {
+    console.log('');
+  }
+  if (config.jsonPath) {
+    console.log(chalk.blue('JSON diff:'), config.jsonPath);
+  }
+  if (config.markdownPath) {
+    console.log(chalk.blue('Markdown diff:'), config.markdownPath);
+  }
+}
+
+/**
+ * Renders the diff as Markdown (for PR comments and release notes)
+ */
+function renderDiffMarkdown(diff: ReportDiff): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|');
+  const lines: string[] = [
+    '# Validation Report Diff',
+    '',
+    `- **Old:** \`${diff.old.path}\` (${diff.old.validatedAt})`,
+    `- **New:** \`${diff.new.path}\` (${diff.new.validatedAt})`,
+    '',
+    '| Change | Count |',
+    '|--------|-------|',
+    `| Regressions | ${diff.counts.regressions} |`,
+    `| Newly broken | ${diff.counts.regressed} |`,
+    `| Fixed | ${diff.counts.fixed} |`,
+    `| Changed | ${diff.counts.changed} |`,
+    `| Status code changes | ${diff.counts.statusCodeChanges} |`,
+    `| Added paths | ${diff.counts.added} |`,
+    `| Removed paths | ${diff.counts.removed} |`,
+  ];
+
+  if (diff.summaryDeltas.length > 0) {
+    lines.push('', '## Summary changes', '', '| Counter | Old | New | Delta |', '|---------|-----|-----|-------|');
+    for (const d of diff.summaryDeltas) {
+      lines.push(`| ${d.field} | ${d.old} | ${d.new} | ${formatDelta(d.delta)} |`);
+    }
+  }
+
+  for (const section of diffSections(diff)) {
+    if (section.entries.length === 0) continue;
+    lines.push(
+      '',
+      `## ${section.title} (${section.entries.length})`,
+      '',
+      '| Path | Status | Code | Issue types |',
+      '|------|--------|------|-------------|'
+    );
+    for (const entry of section.entries) {
+      const types = [
+        ...entry.addedIssueTypes.map(t => `+${t}`),
+        ...entry.removedIssueTypes.map(t => `-${t}`),
+      ].join(' ');
+      lines.push(
+        `| \`${escape(entry.sourcePath)}\` | ${entry.oldStatus ?? '-'} → ${entry.newStatus ?? '-'} ` +
+          `| ${formatStatusCodes(entry)} | ${types} |`
+      );
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,59 @@
+import type { ValidationReport, ValidationResult, ValidationIssue } from '../types/index.js';
+import { formatCsv } from '../utils/csv.js';
+
+/**
+ * CSV columns, in output order. Append new columns at the end so existing
+ * spreadsheets and imports keep working.
+ */
+const CSV_COLUMNS = [
+  'status',
+  'source_path',
+  'source_title',
+  'destination_url',
+  'destination_status_code',
+  'destination_title',
+  'response_time_ms',
+  'mapping_rule',
+  'issue_type',
+  'issue_message',
+  'issue_details',
+] as const;
+
+/**
+ * Renders a validation report as CSV with one row per issue.
+ * Results without issues get a single row with empty issue columns.
+ */
+export function renderCsvReport(report: ValidationReport): string {
+  const rows: string[][] = [[...CSV_COLUMNS]];
+
+  for (const result of report.results) {
+    if (result.issues.length === 0) {
+      rows.push(toRow(result, null));
+    }
+    for (const issue of result.issues) {
+      rows.push(toRow(result, issue));
+    }
+  }
+
+  return formatCsv(rows);
+}
+
+/**
+ * Builds one CSV row for a result and (optionally) one of its issues
+ */
+function toRow(result: ValidationResult, issue: ValidationIssue | null): string[] {
+  const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+    status: result.status,
+    source_path: result.sourcePath,
+    source_title: result.sourceTitle ?? '',
+    destination_url: result.destinationUrl,
+    destination_status_code: result.destinationStatusCode?.toString() ?? '',
+    destination_title: result.destinationTitle ?? '',
+    response_time_ms: result.responseTimeMs?.toString() ?? '',
+    mapping_rule: result.mappingRule?.location ?? '',
+    issue_type: issue?.type ?? '',
+    issue_message: issue?.message ?? '',
+    issue_details: issue?.details ? JSON.stringify(issue.details) : '',
+  };
+  return CSV_COLUMNS.map(column => values[column]);
+}
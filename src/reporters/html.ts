@@ -0,0 +1,274 @@
+import type { ValidationReport } from '../types/index.js';
+import { formatDuration } from '../utils/concurrency.js';
+
+/**
+ * Renders a validation report as a single self-contained HTML page
+ * (inline CSS and JS, no external assets, works offline)
+ */
+export function renderHtmlReport(report: ValidationReport): string {
+  const { summary } = report;
+
+  // Issue counts by type, taken from the results so every type is covered
+  const issueCounts = new Map<string, number>();
+  for (const result of report.results) {
+    for (const issue of result.issues) {
+      issueCounts.set(issue.type, (issueCounts.get(issue.type) ?? 0) + 1);
+    }
+  }
+  const issueTypes = [...issueCounts.entries()].sort((a, b) => b[1] - a[1]);
+  const maxIssueCount = Math.max(1, ...issueTypes.map(([, count]) => count));
+
+  const pct = (n: number) => (summary.totalUrls > 0 ? (n / summary.totalUrls) * 100 : 0);
+
+  const statusBar = [
+    ['ok', summary.okUrls],
+    ['warning', summary.warningUrls],
+    ['error', summary.errorUrls],
+  ]
+    .filter(([, count]) => (count as number) > 0)
+    .map(([status, count]) =>
+      `<div class="seg ${status}" style="width:${pct(count as number).toFixed(2)}%" title="${status}: ${count}"></div>`
+    )
+    .join('');
+
+  const issueBars = issueTypes.length > 0
+    ? issueTypes.map(([type, count]) => `
+        <div class="bar-row">
+          <span class="bar-label">${escapeHtml(type)}</span>
+          <span class="bar"><span style="width:${((count / maxIssueCount) * 100).toFixed(2)}%"></span></span>
+          <span class="bar-count">${count}</span>
+        </div>`).join('')
+    : '<p class="muted">No issues found.</p>';
+
+  const issueOptions = issueTypes
+    .map(([type]) => `<option value="${escapeHtml(type)}">${escapeHtml(type)}</option>`)
+    .join('');
+
+  // Embedded as JSON; "<" is escaped so the data cannot close the script tag
+  const data = JSON.stringify({
+    sourceUrl: report.sourceUrl,
+    results: report.results,
+  }).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>URL Migration Report – ${escapeHtml(report.destinationUrl)}</title>
+<style>
+  :root { --ok: #2e7d32; --warning: #ed8c00; --error: #c62828; --muted: #6b7280; --border: #e5e7eb; }
+  * { box-sizing: border-box; }
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 24px; color: #111827; background: #f9fafb; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 0 0 12px; }
+  a { color: #1d4ed8; text-decoration: none; word-break: break-all; }
+  a:hover { text-decoration: underline; }
+  .muted { color: var(--muted); }
+  .panel { background: #fff; border: 1px solid var(--border); border-radius: 8px; padding: 16px; margin-bottom: 16px; }
+  .cards { display: flex; gap: 12px; flex-wrap: wrap; margin-bottom: 16px; }
+  .card { flex: 1 1 140px; background: #fff; border: 1px solid var(--border); border-radius: 8px; padding: 12px 16px; }
+  .card .value { font-size: 26px; font-weight: 600; }
+  .card.ok .value { color: var(--ok); } .card.warning .value { color: var(--warning); } .card.error .value { color: var(--error); }
+  .stack { display: flex; height: 18px; border-radius: 4px; overflow: hidden; background: var(--border); }
+  .seg.ok { background: var(--ok); } .seg.warning { background: var(--warning); } .seg.error { background: var(--error); }
+  .bar-row { display: grid; grid-template-columns: 220px 1fr 60px; gap: 8px; align-items: center; margin: 4px 0; }
+  .bar { background: var(--border); border-radius: 3px; height: 12px; overflow: hidden; }
+  .bar span { display: block; height: 100%; background: #4f46e5; }
+  .bar-count { text-align: right; font-variant-numeric: tabular-nums; }
+  .filters { display: flex; gap: 12px; flex-wrap: wrap; align-items: center; margin-bottom: 12px; }
+  .filters input[type=search] { padding: 6px 8px; min-width: 240px; border: 1px solid var(--border); border-radius: 4px; }
+  .filters select { padding: 6px; border: 1px solid var(--border); border-radius: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--border); vertical-align: top; }
+  th { cursor: pointer; user-select: none; white-space: nowrap; background: #f3f4f6; position: sticky; top: 0; }
+  th[data-dir=asc]::after { content: " ▲"; } th[data-dir=desc]::after { content: " ▼"; }
+  .status { font-weight: 600; text-transform: uppercase; font-size: 12px; }
+  .status.ok { color: var(--ok); } .status.warning { color: var(--warning); } .status.error { color: var(--error); }
+  .badge { display: inline-block; background: #eef2ff; color: #3730a3; border-radius: 10px; padding: 0 8px; margin: 0 4px 2px 0; font-size: 12px; }
+  details summary { cursor: pointer; }
+  details ul, details ol { margin: 6px 0 0; padding-left: 18px; }
+  pre { background: #f3f4f6; padding: 6px; border-radius: 4px; white-space: pre-wrap; word-break: break-all; font-size: 12px; margin: 4px 0; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+  <h1>URL Migration Report</h1>
+  <p class="muted">
+    <a href="${escapeHtml(report.sourceUrl)}">${escapeHtml(report.sourceUrl)}</a>
+    → <a href="${escapeHtml(report.destinationUrl)}">${escapeHtml(report.destinationUrl)}</a>
+    · validated ${escapeHtml(report.validatedAt)} · ${escapeHtml(formatDuration(summary.durationMs))}
+  </p>
+
+  <div class="cards">
+    <div class="card"><div class="muted">Total URLs</div><div class="value">${summary.totalUrls}</div></div>
+    <div class="card ok"><div class="muted">OK</div><div class="value">${summary.okUrls}</div></div>
+    <div class="card warning"><div class="muted">Warnings</div><div class="value">${summary.warningUrls}</div></div>
+    <div class="card error"><div class="muted">Errors</div><div class="value">${summary.errorUrls}</div></div>
+  </div>
+
+  <div class="panel">
+    <h2>Status</h2>
+    <div class="stack">${statusBar}</div>
+  </div>
+
+  <div class="panel">
+    <h2>Issues by type</h2>
+    ${issueBars}
+  </div>
+
+  <div class="panel">
+    <h2>Results</h2>
+    <div class="filters">
+      <input type="search" id="search" placeholder="Filter by path or URL…">
+      <label><input type="checkbox" class="status-filter" value="error" checked> Errors</label>
+      <label><input type="checkbox" class="status-filter" value="warning" checked> Warnings</label>
+      <label><input type="checkbox" class="status-filter" value="ok" checked> OK</label>
+      <select id="issue-filter"><option value="">All issue types</option>${issueOptions}</select>
+      <span class="muted" id="count"></span>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th data-key="status">Status</th>
+          <th data-key="sourcePath">Source</th>
+          <th data-key="destinationUrl">Destination</th>
+          <th data-key="destinationStatusCode">Code</th>
+          <th data-key="issues">Issues</th>
+          <th data-key="responseTimeMs">Time (ms)</th>
+        </tr>
+      </thead>
+      <tbody id="rows"></tbody>
+    </table>
+  </div>
+
+<script type="application/json" id="report-data">${data}</script>
+<script>
+(function () {
+  var data = JSON.parse(document.getElementById('report-data').textContent);
+  var results = data.results;
+  var statusOrder = { error: 0, warning: 1, ok: 2 };
+  var sortKey = 'status';
+  var sortDir = 'asc';
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function link(href, text) {
+    return el('a', { href: href, target: '_blank', rel: 'noopener' }, [text]);
+  }
+
+  function sourceHref(path) {
+    try { return new URL(path, data.sourceUrl).href; } catch (e) { return path; }
+  }
+
+  function sortValue(result, key) {
+    if (key === 'status') return statusOrder[result.status];
+    if (key === 'issues') return result.issues.length;
+    var value = result[key];
+    return value === null || value === undefined ? '' : value;
+  }
+
+  function renderRow(result) {
+    var issuesCell = el('td');
+    if (result.issues.length > 0) {
+      var summary = el('summary', {}, result.issues.map(function (issue) {
+        return el('span', { 'class': 'badge' }, [issue.type]);
+      }));
+      var list = el('ul', {}, result.issues.map(function (issue) {
+        var item = el('li', {}, [issue.message]);
+        if (issue.details) {
+          item.appendChild(el('pre', {}, [JSON.stringify(issue.details, null, 2)]));
+        }
+        return item;
+      }));
+      var children = [summary, list];
+      if (result.suggestions && result.suggestions.length > 0) {
+        children.push(el('p', { 'class': 'muted' }, ['Suggested destinations:']));
+        children.push(el('ol', {}, result.suggestions.map(function (suggestion) {
+          return el('li', {}, [
+            link(suggestion.url, suggestion.path),
+            ' (' + suggestion.score + (suggestion.title ? ', ' + suggestion.title : '') + ')',
+          ]);
+        })));
+      }
+      issuesCell.appendChild(el('details', {}, children));
+    }
+
+    return el('tr', {}, [
+      el('td', {}, [el('span', { 'class': 'status ' + result.status }, [result.status])]),
+      el('td', {}, [link(sourceHref(result.sourcePath), result.sourcePath)]),
+      el('td', {}, [link(result.destinationUrl, result.destinationUrl)]),
+      el('td', { 'class': 'num' }, [result.destinationStatusCode === null ? 'ERR' : String(result.destinationStatusCode)]),
+      issuesCell,
+      el('td', { 'class': 'num' }, [result.responseTimeMs === null ? '' : String(result.responseTimeMs)]),
+    ]);
+  }
+
+  function render() {
+    var search = document.getElementById('search').value.toLowerCase();
+    var issueType = document.getElementById('issue-filter').value;
+    var statuses = {};
+    document.querySelectorAll('.status-filter').forEach(function (box) { statuses[box.value] = box.checked; });
+
+    var filtered = results.filter(function (result) {
+      if (!statuses[result.status]) return false;
+      if (issueType && !result.issues.some(function (issue) { return issue.type === issueType; })) return false;
+      if (search && (result.sourcePath + ' ' + result.destinationUrl).toLowerCase().indexOf(search) === -1) return false;
+      return true;
+    });
+
+    filtered.sort(function (a, b) {
+      var x = sortValue(a, sortKey);
+      var y = sortValue(b, sortKey);
+      var cmp = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+      return sortDir === 'asc' ? cmp : -cmp;
+    });
+
+    var body = document.getElementById('rows');
+    var fragment = document.createDocumentFragment();
+    filtered.forEach(function (result) { fragment.appendChild(renderRow(result)); });
+    body.replaceChildren(fragment);
+    document.getElementById('count').textContent = filtered.length + ' of ' + results.length + ' URLs';
+
+    document.querySelectorAll('th').forEach(function (th) {
+      if (th.dataset.key === sortKey) { th.dataset.dir = sortDir; } else { delete th.dataset.dir; }
+    });
+  }
+
+  document.querySelectorAll('th').forEach(function (th) {
+    th.addEventListener('click', function () {
+      sortDir = sortKey === th.dataset.key && sortDir === 'asc' ? 'desc' : 'asc';
+      sortKey = th.dataset.key;
+      render();
+    });
+  });
+  document.getElementById('search').addEventListener('input', render);
+  document.getElementById('issue-filter').addEventListener('change', render);
+  document.querySelectorAll('.status-filter').forEach(function (box) { box.addEventListener('change', render); });
+
+  render();
+})();
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Escapes text for use in HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
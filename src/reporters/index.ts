@@ -0,0 +1,72 @@
+import path from 'node:path';
+import fse from 'fs-extra';
+import type { ReportFormat, ValidationReport } from '../types/index.js';
+import { renderHtmlReport } from './html.js';
+import { renderCsvReport } from './csv.js';
+import { renderJunitReport } from './junit.js';
+import { renderRedirectMapReport } from './redirect-map.js';
+
+/**
+ * Serializes a validation report in one output format
+ */
+export interface ReportWriter {
+  /** Extension that replaces .json in the report path */
+  extension: string;
+  /** Renders the report as file contents */
+  render(report: ValidationReport): string;
+}
+
+/**
+ * Writers for every supported report format
+ */
+export const REPORT_WRITERS: Record<ReportFormat, ReportWriter> = {
+  json: { extension: '.json', render: report => JSON.stringify(report, null, 2) + '\n' },
+  html: { extension: '.html', render: renderHtmlReport },
+  csv: { extension: '.csv', render: renderCsvReport },
+  junit: { extension: '.junit.xml', render: renderJunitReport },
+  'redirect-map': { extension: '.redirect-map.csv', render: renderRedirectMapReport },
+};
+
+/**
+ * Names of the supported report formats
+ */
+export const REPORT_FORMATS = Object.keys(REPORT_WRITERS) as ReportFormat[];
+
+/**
+ * Parses --format values, accepting repeated and comma-separated formats.
+ * Throws on unknown formats.
+ */
+export function parseReportFormats(values: string[]): ReportFormat[] {
+  const formats = values.flatMap(value => value.split(',')).map(f => f.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(f => !REPORT_FORMATS.includes(f as ReportFormat));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown report format: ${unknown.join(', ')} (valid: ${REPORT_FORMATS.join(', ')})`);
+  }
+  return [...new Set(formats)] as ReportFormat[];
+}
+
+/**
+ * Derives the path for a format from the JSON report path
+ * (report.json -> report.html, report.csv, report.junit.xml, report.redirect-map.csv)
+ */
+export function getReportPath(jsonPath: string, format: ReportFormat): string {
+  if (format === 'json') return jsonPath;
+  const ext = path.extname(jsonPath);
+  const base = ext.toLowerCase() === '.json' ? jsonPath.slice(0, -ext.length) : jsonPath;
+  return base + REPORT_WRITERS[format].extension;
+}
+
+/**
+ * Writes a report in each format and returns the paths written, in order
+ */
+export async function writeReports(
+  report: ValidationReport,
+  formats: Array<{ format: ReportFormat; outputPath: string }>
+): Promise<string[]> {
+  const written: string[] = [];
+  for (const { format, outputPath } of formats) {
+    await fse.writeFile(outputPath, REPORT_WRITERS[format].render(report), 'utf8');
+    written.push(outputPath);
+  }
+  return written;
+}
@@ -0,0 +1,72 @@
+import type { ValidationReport, ValidationResult } from '../types/index.js';
+
+/**
+ * Renders a validation report as JUnit XML with one testcase per source path.
+ * Error results become failures (or errors when the destination could not be
+ * fetched at all); warnings pass and are listed in system-out.
+ */
+export function renderJunitReport(report: ValidationReport): string {
+  const { summary } = report;
+  const classname = new URL(report.destinationUrl).host;
+
+  const errored = report.results.filter(r => r.status === 'error' && r.destinationStatusCode === null).length;
+  const failed = report.results.filter(r => r.status === 'error').length - errored;
+  const seconds = (summary.durationMs / 1000).toFixed(3);
+
+  const testcases = report.results.map(result => renderTestcase(result, classname)).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="url-migration-checker" tests="${report.results.length}" failures="${failed}" errors="${errored}" time="${seconds}">
+  <testsuite name="${escapeXml(`${report.sourceUrl} → ${report.destinationUrl}`)}" tests="${report.results.length}" failures="${failed}" errors="${errored}" skipped="0" time="${seconds}" timestamp="${escapeXml(report.validatedAt)}">
+    <properties>
+      <property name="sourceUrl" value="${escapeXml(report.sourceUrl)}"/>
+      <property name="destinationUrl" value="${escapeXml(report.destinationUrl)}"/>
+      <property name="warningUrls" value="${summary.warningUrls}"/>
+    </properties>
+${testcases}
+  </testsuite>
+</testsuites>
+`;
+}
+
+/**
+ * Renders one result as a testcase element
+ */
+function renderTestcase(result: ValidationResult, classname: string): string {
+  const time = ((result.responseTimeMs ?? 0) / 1000).toFixed(3);
+  const open = `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(result.sourcePath)}" time="${time}"`;
+
+  if (result.issues.length === 0) {
+    return `${open}/>`;
+  }
+
+  const issueLines = result.issues.map(issue => `${issue.type}: ${issue.message}`).join('\n');
+  const lines = [`${open}>`];
+
+  if (result.status === 'error') {
+    const tag = result.destinationStatusCode === null ? 'error' : 'failure';
+    const types = [...new Set(result.issues.map(issue => issue.type))].join(',');
+    lines.push(
+      `      <${tag} type="${escapeXml(types)}" message="${escapeXml(result.issues[0].message)}">` +
+        `${escapeXml(`${result.destinationUrl}\n${issueLines}`)}</${tag}>`
+    );
+  } else {
+    lines.push(`      <system-out>${escapeXml(issueLines)}</system-out>`);
+  }
+
+  lines.push('    </testcase>');
+  return lines.join('\n');
+}
+
+/**
+ * Escapes text for XML content and attributes, dropping characters XML 1.0 forbids
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,48 @@
+import type { ValidationReport } from '../types/index.js';
+import { formatCsv } from '../utils/csv.js';
+
+/**
+ * Redirect map columns. The first three make the file a valid --map input;
+ * the rest help reviewers pick the right suggestion.
+ */
+const REDIRECT_MAP_COLUMNS = [
+  'from',
+  'to',
+  'type',
+  'rank',
+  'score',
+  'slug_score',
+  'title_score',
+  'body_score',
+  'source_title',
+  'destination_title',
+] as const;
+
+/**
+ * Renders destination suggestions for broken URLs as a draft mapping file,
+ * best suggestion first. The mapping loader keeps the first rule per path,
+ * so reviewers delete the rows they reject and pass the file to --map.
+ */
+export function renderRedirectMapReport(report: ValidationReport): string {
+  const rows: string[][] = [[...REDIRECT_MAP_COLUMNS]];
+
+  for (const result of report.results) {
+    result.suggestions?.forEach((suggestion, index) => {
+      const values: Record<(typeof REDIRECT_MAP_COLUMNS)[number], string> = {
+        from: result.sourcePath,
+        to: suggestion.path,
+        type: 'exact',
+        rank: String(index + 1),
+        score: String(suggestion.score),
+        slug_score: String(suggestion.signals.slug),
+        title_score: suggestion.signals.title?.toString() ?? '',
+        body_score: suggestion.signals.body?.toString() ?? '',
+        source_title: result.sourceTitle ?? '',
+        destination_title: suggestion.title ?? '',
+      };
+      rows.push(REDIRECT_MAP_COLUMNS.map(column => values[column]));
+    });
+  }
+
+  return formatCsv(rows);
+}
@@ -12,10 +12,67 @@ export interface CrawledUrl {
   statusCode: number;
   /** Depth level from the source URL (0 = root) */
   depth: number;
-  /** URL from which this page was discovered */
+  /** URL from which this page was discovered (page or sitemap file) */
   discoveredFrom: string | null;
+  /** How this URL was discovered: through links, the sitemap, or both */
+  discoveredVia: DiscoverySource;
+  /** SEO metadata of the page (absent in crawls made before it was recorded, or on fetch errors) */
+  seo?: SeoMetadata;
+  /** Fingerprint of the page's body text (only in crawls made with fingerprinting) */
+  content?: ContentFingerprint;
 }
 
+/**
+ * Compact fingerprint of a page's normalized body text
+ */
+export interface ContentFingerprint {
+  /** 64-bit simhash over word shingles, as 16 hex characters */
+  simhash: string;
+  /** Number of words in the text */
+  wordCount: number;
+}
+
+/**
+ * An hreflang alternate link
+ */
+export interface HreflangLink {
+  /** Language/region code (e.g. "en-gb", "x-default") */
+  lang: string;
+  /** Absolute URL of the alternate page */
+  href: string;
+}
+
+/**
+ * SEO metadata found in a page's HTML
+ */
+export interface PageMetadata {
+  /** Content of <meta name="description"> */
+  metaDescription: string | null;
+  /** Text of every <h1>, in document order */
+  h1s: string[];
+  /** Absolute URL from <link rel="canonical"> */
+  canonical: string | null;
+  /** Content of <meta name="robots"> */
+  metaRobots: string | null;
+  /** Open Graph properties (og:title, og:description, ...) */
+  openGraph: Record<string, string>;
+  /** hreflang alternate links */
+  hreflang: HreflangLink[];
+}
+
+/**
+ * SEO metadata of a fetched page, including response headers
+ */
+export interface SeoMetadata extends PageMetadata {
+  /** X-Robots-Tag response header */
+  xRobotsTag: string | null;
+}
+
+/**
+ * How a crawled URL was discovered
+ */
+export type DiscoverySource = 'links' | 'sitemap' | 'both';
+
 /**
  * Statistics from the crawl operation
  */
@@ -30,6 +87,12 @@ export interface CrawlStats {
   skippedDueToDepth: number;
   /** URLs skipped due to exclude patterns */
   skippedDueToExclude: number;
+  /** Unique URLs skipped because robots.txt disallows them (0 if robots.txt is ignored) */
+  skippedDueToRobots: number;
+  /** Unique page URLs listed in the site's sitemaps (0 if sitemap discovery is off) */
+  sitemapUrls: number;
+  /** Responses where the site throttled the crawl (429/503) */
+  throttledRequests: number;
   /** Duration of crawl in milliseconds */
   durationMs: number;
 }
@@ -50,11 +113,62 @@ export interface CrawlerOutput {
   config: CrawlerConfig;
 }
 
+/**
+ * A URL waiting in the crawl queue
+ */
+export interface CrawlQueueItem {
+  /** Normalized URL to crawl */
+  url: string;
+  /** Depth level from the source URL */
+  depth: number;
+  /** URL from which this URL was discovered */
+  discoveredFrom: string | null;
+}
+
+/**
+ * Crawl state saved to disk so an interrupted crawl can be resumed
+ */
+export interface CrawlCheckpoint {
+  /** Checkpoint format version */
+  version: number;
+  /** Crawler configuration of the original run */
+  config: CrawlerConfig;
+  /** Timestamp when the checkpoint was written */
+  savedAt: string;
+  /** Crawl time spent so far in milliseconds */
+  elapsedMs: number;
+  /** URLs still waiting to be crawled */
+  queue: CrawlQueueItem[];
+  /** Normalized URLs already visited */
+  visited: string[];
+  /** Crawled pages, each with the normalized URL that was requested */
+  crawled: Array<{ requestedUrl: string; crawledUrl: CrawledUrl }>;
+  /** Normalized URLs reached through links */
+  linkedUrls: string[];
+  /** Normalized URLs listed in sitemaps */
+  sitemapUrls: string[];
+  /** Normalized URLs blocked by robots.txt */
+  blockedByRobots: string[];
+  /** URLs skipped due to depth limit so far */
+  skippedDueToDepth: number;
+  /** URLs skipped due to exclude patterns so far */
+  skippedDueToExclude: number;
+  /** Throttled responses so far (missing in checkpoints of older versions) */
+  throttledRequests?: number;
+}
+
 /**
  * Renderer type for fetching pages
  */
 export type RendererType = 'static' | 'flaresolverr';
 
+/**
+ * HTML parser used for pages: 'dom' builds a document (needed for selector
+ * rules), 'stream' reads the HTML in one pass without a document, 'auto'
+ * streams large pages when no selectors are needed
+ */
+export type HtmlParserMode = 'auto' | 'dom' | 'stream';
+
 /**
  * Configuration options for the crawler
  */
@@ -79,6 +193,70 @@ export interface CrawlerConfig {
   renderer: RendererType;
   /** FlareSolverr API URL (when renderer is 'flaresolverr') */
   flaresolverrUrl?: string;
+  /** Seed the crawl with URLs from robots.txt sitemaps and /sitemap.xml */
+  useSitemap: boolean;
+  /** Obey robots.txt Allow/Disallow rules and Crawl-delay */
+  respectRobots: boolean;
+  /** Interval between checkpoint saves in milliseconds (0 disables periodic checkpoints) */
+  checkpointInterval: number;
+  /** Record a body text fingerprint per page for content comparison */
+  fingerprint: boolean;
+  /** Credentials and headers for the source site */
+  auth?: AuthConfig;
+  /** Connect to these addresses instead of resolving the hostnames */
+  resolve?: ResolveOverride[];
+  /** Most requests started per second per host (unset for no cap) */
+  maxRequestsPerSecond?: number;
+  /** Negotiate HTTP/2 with servers that offer it */
+  http2?: boolean;
+  /** Largest page body read in bytes; longer pages are cut off */
+  maxBodySize?: number;
+  /** HTML parser for pages (default: 'auto') */
+  parser?: HtmlParserMode;
+  /** Worker threads that parse pages off the main thread (0 parses in the main thread) */
+  parseWorkers?: number;
+}
+
+/**
+ * Credentials and headers sent to a protected site. String values may
+ * reference environment variables as ${NAME}; literal secrets are redacted
+ * from the config written into outputs.
+ */
+export interface AuthConfig {
+  /** HTTP basic auth as "user:password" */
+  basic?: string;
+  /** Bearer token sent as "Authorization: Bearer <token>" */
+  bearer?: string;
+  /** Extra request headers (e.g. Cloudflare Access service tokens) */
+  headers?: Record<string, string>;
+  /** Netscape cookie file whose cookies are sent with requests */
+  cookieJar?: string;
+  /** Form login performed before the run to capture session cookies */
+  login?: FormLoginConfig;
+  /** Other hosts that also get the headers (www and the bare host count as one) */
+  hosts?: string[];
+}
+
+/**
+ * Scripted form login
+ */
+export interface FormLoginConfig {
+  /** Page with the login form (the form is submitted to its action) */
+  url: string;
+  /** Form fields to fill in, e.g. { "username": "...", "password": "${PASSWORD}" } */
+  fields: Record<string, string>;
+}
+
+/**
+ * Host and port pinned to an IP address, like curl's --resolve
+ */
+export interface ResolveOverride {
+  /** Hostname as it appears in URLs (lowercase) */
+  host: string;
+  /** Port the override applies to */
+  port: number;
+  /** IPv4 or IPv6 address to connect to */
+  address: string;
 }
 
 /**
@@ -86,7 +264,27 @@ export interface CrawlerConfig {
  */
 export interface ValidationIssue {
   /** Type of issue detected */
-  type: 'not_found' | 'soft_404' | 'server_error' | 'title_mismatch' | 'redirect' | 'timeout' | 'error';
+  type:
+    | 'not_found'
+    | 'soft_404'
+    | 'server_error'
+    | 'title_mismatch'
+    | 'content_mismatch'
+    | 'redirect'
+    | 'redirect_chain'
+    | 'temporary_redirect'
+    | 'cross_domain_redirect'
+    | 'redirect_loop'
+    | 'robots_disallowed'
+    | 'unmapped'
+    | 'meta_description_mismatch'
+    | 'h1_mismatch'
+    | 'canonical_mismatch'
+    | 'noindex'
+    | 'open_graph_mismatch'
+    | 'hreflang_mismatch'
+    | 'timeout'
+    | 'error';
   /** Human-readable message describing the issue */
   message: string;
   /** Additional details (e.g., redirect location) */
@@ -113,6 +311,46 @@ export interface ValidationResult {
   issues: ValidationIssue[];
   /** Response time in milliseconds */
   responseTimeMs: number | null;
+  /** Mapping rule that produced destinationUrl (null if unmapped; absent without --map) */
+  mappingRule?: UrlMapRule | null;
+  /** Ranked destination candidates for not_found and soft_404 results (only with a destination crawl) */
+  suggestions?: RedirectSuggestion[];
+  /** Set when the destination page was cut off at maxBodySize (its body text was not compared) */
+  bodyTruncated?: boolean;
+}
+
+/**
+ * A destination page that may be the new home of a broken source URL
+ */
+export interface RedirectSuggestion {
+  /** Candidate destination URL */
+  url: string;
+  /** Candidate destination path */
+  path: string;
+  /** Candidate page title */
+  title: string | null;
+  /** Combined score from 0 to 1 */
+  score: number;
+  /** Individual signal scores from 0 to 1 (null when a signal was unavailable) */
+  signals: {
+    slug: number;
+    title: number | null;
+    body: number | null;
+  };
+}
+
+/**
+ * A rule from a URL mapping file
+ */
+export interface UrlMapRule {
+  /** Exact path match or regular expression pattern */
+  type: 'exact' | 'pattern';
+  /** Source path (exact) or regex (pattern) */
+  from: string;
+  /** Destination path or URL; patterns may use $1 or $<name> */
+  to: string;
+  /** Where the rule is defined (file:line for CSV, file#index for JSON) */
+  location: string;
 }
 
 /**
@@ -135,8 +373,36 @@ export interface ValidationSummary {
   serverErrorCount: number;
   /** Count of title mismatches */
   titleMismatchCount: number;
+  /** Count of destination pages whose body text differs from the source */
+  contentMismatchCount: number;
   /** Count of redirects */
   redirectCount: number;
+  /** Count of redirect chains with more than one hop */
+  redirectChainCount: number;
+  /** Count of chains containing a temporary (302/303/307) redirect */
+  temporaryRedirectCount: number;
+  /** Count of chains that redirect to another domain */
+  crossDomainRedirectCount: number;
+  /** Count of redirect loops */
+  redirectLoopCount: number;
+  /** Count of destination URLs disallowed by the destination's robots.txt */
+  robotsDisallowedCount: number;
+  /** Count of source paths no mapping rule covered (only with a mapping file) */
+  unmappedCount: number;
+  /** Count of meta description differences */
+  metaDescriptionMismatchCount: number;
+  /** Count of H1 differences */
+  h1MismatchCount: number;
+  /** Count of missing or foreign canonical tags */
+  canonicalMismatchCount: number;
+  /** Count of destination pages that newly set noindex */
+  noindexCount: number;
+  /** Count of Open Graph differences */
+  openGraphMismatchCount: number;
+  /** Count of hreflang differences */
+  hreflangMismatchCount: number;
+  /** Count of responses where the destination throttled the run (429/503) */
+  throttledCount: number;
   /** Duration of validation in milliseconds */
   durationMs: number;
 }
@@ -157,6 +423,54 @@ export interface ValidationReport {
   validatedAt: string;
   /** Validator configuration used */
   config: ValidatorConfig;
+  /** Set on partial reports saved during an unfinished run */
+  partial?: boolean;
+  /** Pass/fail verdict against the configured thresholds (absent on partial reports) */
+  verdict?: ValidationVerdict;
+  /** How the destination answered nonexistent paths (absent when calibration is off) */
+  soft404Calibration?: Soft404Calibration;
+}
+
+/**
+ * Limits a validation run must stay within to pass
+ */
+export interface ValidationThresholds {
+  /** Fail on any URL at this status or worse ('none' disables) */
+  failOn: 'none' | 'warning' | 'error';
+  /** Maximum number of error URLs */
+  maxErrors?: number;
+  /** Maximum number of warning URLs */
+  maxWarnings?: number;
+  /** Maximum share of error URLs, as a fraction from 0 to 1 */
+  maxErrorRate?: number;
+  /** Maximum count per issue type */
+  maxIssues?: Partial<Record<ValidationIssue['type'], number>>;
+}
+
+/**
+ * A threshold that a validation run exceeded
+ */
+export interface ThresholdViolation {
+  /** Threshold name, matching its CLI flag (e.g. 'max-soft-404') */
+  threshold: string;
+  /** Configured limit */
+  limit: number;
+  /** Observed value */
+  actual: number;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Machine-readable outcome of a validation run
+ */
+export interface ValidationVerdict {
+  /** 'fail' when any threshold was exceeded */
+  status: 'pass' | 'fail';
+  /** Process exit code the CLI uses for this verdict */
+  exitCode: number;
+  /** Thresholds that were exceeded */
+  violations: ThresholdViolation[];
 }
 
 /**
@@ -177,8 +491,49 @@ export interface ValidatorConfig {
   verbose: boolean;
   /** How to handle redirects: 'warning' (default) or 'ok' */
   redirectHandling: 'warning' | 'ok';
+  /** Flag source URLs that robots.txt allowed but the destination's robots.txt disallows */
+  checkRobots: boolean;
+  /** Interval between partial report saves in milliseconds (0 disables periodic saves) */
+  checkpointInterval: number;
+  /** Previous report whose error and warning results are re-checked (ok results are kept) */
+  onlyFailedFrom?: string;
+  /** URL mapping file (CSV or JSON) resolving source paths to destination URLs */
+  mapPath?: string;
+  /** Report formats; the JSON report is always written, other formats are written next to it */
+  formats?: ReportFormat[];
+  /** Limits that decide the verdict and exit code */
+  thresholds?: ValidationThresholds;
+  /** Destination crawl used to suggest new homes for broken URLs */
+  suggestFrom?: string;
+  /** Number of suggestions kept per broken URL */
+  suggestionCount?: number;
+  /** Minimum body text similarity (0-1) before a content_mismatch is reported */
+  contentThreshold?: number;
+  /** Probe nonexistent destination paths to learn what its 404 page looks like */
+  calibrateSoft404: boolean;
+  /** Soft 404 rules file (JSON) replacing or extending the built-in patterns */
+  soft404RulesPath?: string;
+  /** Credentials and headers for the destination site */
+  auth?: AuthConfig;
+  /** Connect to these addresses instead of resolving the hostnames (e.g. before DNS cutover) */
+  resolve?: ResolveOverride[];
+  /** Most requests started per second per host (unset for no cap) */
+  maxRequestsPerSecond?: number;
+  /** Negotiate HTTP/2 with servers that offer it */
+  http2?: boolean;
+  /** Largest page body read in bytes; longer pages are cut off */
+  maxBodySize?: number;
+  /** HTML parser for pages (default: 'auto') */
+  parser?: HtmlParserMode;
+  /** Worker threads that parse pages off the main thread (0 parses in the main thread) */
+  parseWorkers?: number;
 }
 
+/**
+ * Output format for validation reports
+ */
+export type ReportFormat = 'json' | 'html' | 'csv' | 'junit' | 'redirect-map';
+
 /**
  * Result of a soft 404 check
  */
@@ -189,6 +544,89 @@ export interface Soft404CheckResult {
   confidence: number;
   /** Reasons why this was flagged */
   reasons: string[];
+  /** How the page was classified: against the calibrated 404 page, or by the built-in heuristic */
+  method: 'calibration' | 'heuristic';
+}
+
+/**
+ * Response of the destination to one nonexistent path
+ */
+export interface Soft404Probe {
+  /** Nonexistent URL that was requested */
+  url: string;
+  /** HTTP status code (null if the request failed) */
+  statusCode: number | null;
+  /** URL the request ended at after redirects (null if it failed) */
+  finalUrl: string | null;
+  /** Page title */
+  title: string | null;
+  /** Length of the body text in characters */
+  textLength: number;
+  /** Fingerprint of the body text (null if the request failed) */
+  content: ContentFingerprint | null;
+}
+
+/**
+ * How the destination answers requests for pages that do not exist
+ */
+export interface Soft404Calibration {
+  /**
+   * 'hard_404': every probe got a 4xx; 'soft_404': every probe got a 2xx page;
+   * 'mixed': both; 'unavailable': no usable answer (the heuristic is used)
+   */
+  behavior: 'hard_404' | 'soft_404' | 'mixed' | 'unavailable';
+  /** Probes that were made */
+  probes: Soft404Probe[];
+  /** Timestamp when the destination was probed */
+  calibratedAt: string;
+}
+
+/**
+ * Pattern rule in a soft 404 rules file
+ */
+export interface Soft404PatternRule {
+  /** Name shown in reasons when the rule fires (defaults to the pattern) */
+  id?: string;
+  /** Whether the pattern is matched against the page title or body text */
+  target: 'title' | 'body';
+  /** Regular expression, matched case-insensitively */
+  pattern: string;
+  /** Score the rule adds when it matches (0-1) */
+  weight: number;
+}
+
+/**
+ * Selector rule in a soft 404 rules file
+ */
+export interface Soft404SelectorRule {
+  /** Name shown in reasons when the rule fires (defaults to the selector) */
+  id?: string;
+  /** CSS selector that only matches the site's error template */
+  selector: string;
+  /** Score the rule adds when the selector matches (0-1) */
+  weight: number;
+}
+
+/**
+ * Soft 404 rules file (JSON). Omitted fields keep the built-in defaults.
+ */
+export interface Soft404RulesFile {
+  /** Built-in pattern packs to use (default: ["en"]) */
+  languages?: string[];
+  /** Ids of built-in rules to turn off */
+  disable?: string[];
+  /** Extra title and body patterns */
+  patterns?: Soft404PatternRule[];
+  /** Selectors of error templates */
+  selectors?: Soft404SelectorRule[];
+  /** Path regexes of destination pages that are never soft 404s (e.g. search results) */
+  allowPaths?: string[];
+  /** Pages with less body text than this many characters are suspicious (default: 500) */
+  minContentLength?: number;
+  /** Pages with less text than this after collapsing whitespace are very suspicious (default: 100) */
+  minTextLength?: number;
+  /** Score at which a page is flagged (default: 0.5) */
+  threshold?: number;
 }
 
 /**
@@ -203,6 +641,12 @@ export interface ParsedPage {
   bodyText: string;
   /** Content length in characters */
   contentLength: number;
+  /** SEO metadata from the <head> and headings */
+  metadata: PageMetadata;
+  /** Requested CSS selectors that match at least one element */
+  matchedSelectors: string[];
+  /** Body text fingerprint (when requested) */
+  content?: ContentFingerprint;
 }
 
 /**
@@ -219,10 +663,517 @@ export interface FetchResult {
   wasRedirected: boolean;
   /** Response time in milliseconds */
   responseTimeMs: number;
+  /** Response headers of the final response, lower-cased names (empty for FlareSolverr) */
+  headers: Record<string, string>;
+  /** Every request made, in order; the last hop is the final response (empty for FlareSolverr) */
+  redirectChain: RedirectHop[];
+  /** Set when the redirect chain revisited a URL (statusCode is then the looping redirect) */
+  redirectLoop?: boolean;
+  /** Set when reading stopped before the end of the body (size limit or title-only read) */
+  bodyTruncated?: boolean;
   /** Error message if request failed */
   error?: string;
 }
 
+/**
+ * One request in a redirect chain
+ */
+export interface RedirectHop {
+  /** URL that was requested */
+  url: string;
+  /** HTTP status code returned */
+  statusCode: number;
+  /** Location header (null if the response was not a redirect) */
+  location: string | null;
+  /** Response time in milliseconds */
+  responseTimeMs: number;
+}
+
+/**
+ * Configuration options for the redirect verifier
+ */
+export interface RedirectVerifierConfig {
+  /** Path to crawler output file */
+  inputPath: string;
+  /** Destination URL the source should redirect to */
+  destinationUrl: string;
+  /** Number of parallel requests */
+  concurrency: number;
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** Output file path for report */
+  outputPath: string;
+  /** Enable verbose logging */
+  verbose: boolean;
+  /** Maximum redirect hops before a chain is flagged */
+  maxHops: number;
+  /** URL mapping file (CSV or JSON) resolving source paths to destination URLs */
+  mapPath?: string;
+}
+
+/**
+ * Issue found while verifying a source redirect
+ */
+export interface RedirectIssue {
+  /** Type of issue detected */
+  type:
+    | 'no_redirect'
+    | 'temporary_redirect'
+    | 'wrong_target'
+    | 'homepage_redirect'
+    | 'too_many_hops'
+    | 'redirect_loop'
+    | 'broken_target'
+    | 'error';
+  /** Human-readable message describing the issue */
+  message: string;
+  /** Additional details */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Result of verifying the redirect for a single source URL
+ */
+export interface RedirectCheckResult {
+  /** Crawled source URL that was requested */
+  sourceUrl: string;
+  /** Source path */
+  sourcePath: string;
+  /** Where the source URL should end up */
+  expectedUrl: string;
+  /** Where the redirect chain actually ended */
+  finalUrl: string;
+  /** Status code of the last response in the chain (null on error) */
+  finalStatusCode: number | null;
+  /** Every request in the chain, in order */
+  hops: RedirectHop[];
+  /** Overall status: ok, warning, or error */
+  status: 'ok' | 'warning' | 'error';
+  /** List of issues found */
+  issues: RedirectIssue[];
+  /** Mapping rule that produced expectedUrl (null if unmapped; absent without --map) */
+  mappingRule?: UrlMapRule | null;
+}
+
+/**
+ * Summary statistics for the redirect report
+ */
+export interface RedirectSummary {
+  /** Total source URLs checked */
+  totalUrls: number;
+  /** URLs with status 'ok' */
+  okUrls: number;
+  /** URLs with status 'warning' */
+  warningUrls: number;
+  /** URLs with status 'error' */
+  errorUrls: number;
+  /** Source URLs that answered without redirecting */
+  noRedirectCount: number;
+  /** Chains using 302/307 instead of 301/308 */
+  temporaryRedirectCount: number;
+  /** Chains ending somewhere other than the expected URL */
+  wrongTargetCount: number;
+  /** Chains ending at the destination homepage */
+  homepageRedirectCount: number;
+  /** Chains longer than maxHops */
+  tooManyHopsCount: number;
+  /** Chains that loop */
+  redirectLoopCount: number;
+  /** Chains ending in a non-2xx response */
+  brokenTargetCount: number;
+  /** Duration of verification in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Complete redirect verification report
+ */
+export interface RedirectReport {
+  /** Source URL that was crawled */
+  sourceUrl: string;
+  /** Destination URL the source should redirect to */
+  destinationUrl: string;
+  /** Summary statistics */
+  summary: RedirectSummary;
+  /** Detailed results for each source URL */
+  results: RedirectCheckResult[];
+  /** Timestamp when verification started */
+  verifiedAt: string;
+  /** Verifier configuration used */
+  config: RedirectVerifierConfig;
+}
+
+/**
+ * A path prefix rewrite used to align source paths with destination paths
+ */
+export interface PrefixRewrite {
+  /** Source path prefix (e.g. "/blog/") */
+  from: string;
+  /** Destination path prefix that replaces it (e.g. "/articles/") */
+  to: string;
+}
+
+/**
+ * Configuration options for the compare workflow
+ */
+export interface CompareConfig {
+  /** Source site URL (crawled unless sourceCrawlPath is given) */
+  sourceUrl: string;
+  /** Destination site URL (crawled unless destinationCrawlPath is given) */
+  destinationUrl: string;
+  /** Existing source crawl to use instead of crawling */
+  sourceCrawlPath?: string;
+  /** Existing destination crawl to use instead of crawling */
+  destinationCrawlPath?: string;
+  /** Prefix rewrites applied to source paths, first match wins */
+  rewrites: PrefixRewrite[];
+  /** Number of leading path segments that form a rollup directory */
+  rollupDepth: number;
+  /** Crawler settings shared by both crawls (sourceUrl and outputPath are set per site) */
+  crawl: Omit<CrawlerConfig, 'sourceUrl' | 'outputPath'>;
+  /** Output file path for the compare report */
+  outputPath: string;
+  /** Enable verbose logging */
+  verbose: boolean;
+}
+
+/**
+ * A source path and the destination path it was aligned with
+ */
+export interface CompareMatch {
+  /** Path on the source site */
+  sourcePath: string;
+  /** Path on the destination site */
+  destinationPath: string;
+  /** Rewrite that produced the destination path ("from=to"), or null for identical paths */
+  rewrite: string | null;
+}
+
+/**
+ * Coverage of one directory on one side of the comparison
+ */
+export interface DirectoryRollup {
+  /** Directory prefix (e.g. "/resources/") */
+  directory: string;
+  /** Pages in this directory */
+  total: number;
+  /** Pages with a counterpart on the other site */
+  matched: number;
+  /** Pages without a counterpart */
+  unmatched: number;
+  /** matched / total, from 0 to 1 */
+  coverage: number;
+}
+
+/**
+ * Summary statistics for the compare report
+ */
+export interface CompareSummary {
+  /** Pages on the source site (2xx only) */
+  sourcePages: number;
+  /** Pages on the destination site (2xx only) */
+  destinationPages: number;
+  /** Source pages aligned with a destination page */
+  matched: number;
+  /** Source pages with no destination counterpart */
+  sourceOnly: number;
+  /** Destination pages with no source counterpart */
+  destinationOnly: number;
+  /** Source directories with no migrated page at all */
+  missingSourceDirectories: number;
+}
+
+/**
+ * Complete compare report output
+ */
+export interface CompareReport {
+  /** Source site URL */
+  sourceUrl: string;
+  /** Destination site URL */
+  destinationUrl: string;
+  /** Source crawl file used */
+  sourceCrawlPath: string;
+  /** Destination crawl file used */
+  destinationCrawlPath: string;
+  /** Summary statistics */
+  summary: CompareSummary;
+  /** Aligned source and destination paths */
+  matched: CompareMatch[];
+  /** Source paths with no destination counterpart */
+  sourceOnly: string[];
+  /** Destination paths with no source counterpart */
+  destinationOnly: string[];
+  /** Source coverage per directory, least covered first */
+  sourceDirectories: DirectoryRollup[];
+  /** Destination coverage per directory, least covered first */
+  destinationDirectories: DirectoryRollup[];
+  /** Timestamp when the comparison was made */
+  comparedAt: string;
+  /** Compare configuration used */
+  config: CompareConfig;
+}
+
+/**
+ * Configuration options for diffing two crawls
+ */
+export interface CrawlDiffConfig {
+  /** Path to the older crawler output */
+  oldPath: string;
+  /** Path to the newer crawler output */
+  newPath: string;
+  /** Write the diff as JSON to this path */
+  jsonPath?: string;
+  /** Write a merged crawl (new crawl plus URLs only in the old one) to this path */
+  mergedPath?: string;
+  /** Write a crawl with only the added URLs to this path */
+  newOnlyPath?: string;
+  /** Also include changed URLs in the new-only crawl */
+  includeChanged: boolean;
+  /** List every changed URL instead of the first few per section */
+  verbose: boolean;
+}
+
+/**
+ * Crawled fields compared between two crawls
+ */
+export type CrawlDiffField = 'statusCode' | 'title' | 'depth';
+
+/**
+ * How a path changed between two crawls
+ */
+export interface CrawlDiffEntry {
+  /** URL path the crawls were matched on */
+  path: string;
+  /** Kind of change */
+  change: 'added' | 'removed' | 'changed';
+  /** Fields that differ (changed entries only) */
+  changedFields: CrawlDiffField[];
+  /** Values in the old crawl (null if the path was not in it) */
+  old: Pick<CrawledUrl, CrawlDiffField> | null;
+  /** Values in the new crawl (null if the path is not in it) */
+  new: Pick<CrawledUrl, CrawlDiffField> | null;
+}
+
+/**
+ * Result of comparing two crawls
+ */
+export interface CrawlDiff {
+  /** The older crawl */
+  old: { path: string; sourceUrl: string; crawledAt: string; totalUrls: number };
+  /** The newer crawl */
+  new: { path: string; sourceUrl: string; crawledAt: string; totalUrls: number };
+  /** Counts per kind of change */
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+  /** Added, removed and changed paths (unchanged paths are omitted) */
+  entries: CrawlDiffEntry[];
+  /** Timestamp when the diff was made */
+  diffedAt: string;
+}
+
+/**
+ * Configuration options for diffing two validation reports
+ */
+export interface ReportDiffConfig {
+  /** Path to the older validation report */
+  oldPath: string;
+  /** Path to the newer validation report */
+  newPath: string;
+  /** Write the diff as JSON to this path */
+  jsonPath?: string;
+  /** Write the diff as Markdown to this path */
+  markdownPath?: string;
+  /** Exit with a non-zero code when regressions are found */
+  failOnRegression: boolean;
+  /** List every changed URL instead of the first few per section */
+  verbose: boolean;
+}
+
+/**
+ * How a source path changed between two reports
+ */
+export interface ReportDiffEntry {
+  /** Source path the results were matched on */
+  sourcePath: string;
+  /** Kind of change */
+  change: 'regressed' | 'fixed' | 'changed' | 'added' | 'removed';
+  /** Whether this change counts as a regression */
+  regression: boolean;
+  /** Status in the old report (null if the path was not in it) */
+  oldStatus: ValidationResult['status'] | null;
+  /** Status in the new report (null if the path is not in it) */
+  newStatus: ValidationResult['status'] | null;
+  /** Destination status code in the old report */
+  oldStatusCode: number | null;
+  /** Destination status code in the new report */
+  newStatusCode: number | null;
+  /** Issue types present only in the new report */
+  addedIssueTypes: Array<ValidationIssue['type']>;
+  /** Issue types present only in the old report */
+  removedIssueTypes: Array<ValidationIssue['type']>;
+}
+
+/**
+ * Change in one summary counter
+ */
+export interface SummaryDelta {
+  /** ValidationSummary field name */
+  field: keyof ValidationSummary;
+  /** Value in the old report */
+  old: number;
+  /** Value in the new report */
+  new: number;
+  /** new - old */
+  delta: number;
+}
+
+/**
+ * Result of comparing two validation reports
+ */
+export interface ReportDiff {
+  /** The older report */
+  old: { path: string; destinationUrl: string; validatedAt: string };
+  /** The newer report */
+  new: { path: string; destinationUrl: string; validatedAt: string };
+  /** Counts per kind of change */
+  counts: {
+    regressed: number;
+    fixed: number;
+    changed: number;
+    added: number;
+    removed: number;
+    statusCodeChanges: number;
+    regressions: number;
+  };
+  /** Summary counters that changed */
+  summaryDeltas: SummaryDelta[];
+  /** Changed source paths (unchanged paths are omitted) */
+  entries: ReportDiffEntry[];
+  /** Timestamp when the diff was made */
+  diffedAt: string;
+}
+
+/**
+ * Server configuration format for exported redirect rules
+ */
+export type RedirectExportFormat = 'nginx' | 'apache' | 'netlify' | 'vercel' | 'csv';
+
+/**
+ * Configuration options for exporting redirect rules
+ */
+export interface RedirectExportConfig {
+  /** Validation report (JSON) or CSV of from,to pairs */
+  inputPath: string;
+  /** Directory the rule files are written to */
+  outputDir: string;
+  /** Formats to write */
+  formats: RedirectExportFormat[];
+  /** Minimum number of pairs sharing a prefix rewrite before they collapse into one rule (0 disables) */
+  collapseMin: number;
+  /** Write destination paths instead of absolute URLs */
+  relative: boolean;
+  /** Origin that replaces the report's destination origin in targets (e.g. production instead of staging) */
+  targetOrigin?: string;
+  /** Enable verbose logging */
+  verbose: boolean;
+}
+
+/**
+ * A generated redirect rule
+ */
+export interface RedirectRule {
+  /** 'exact' matches one path; 'prefix' matches everything under `from` and keeps the rest of the path */
+  type: 'exact' | 'prefix';
+  /** Source path, or path prefix ending in "/" */
+  from: string;
+  /** Destination path or URL, or prefix that replaces `from` */
+  to: string;
+  /** Number of input pairs the rule covers */
+  covers: number;
+}
+
+/**
+ * A redirect whose target is itself redirected by the generated rules
+ */
+export interface RedirectChain {
+  /** Source path or prefix of the rule */
+  from: string;
+  /** Targets in the order they were followed, ending with the final target */
+  hops: string[];
+  /** Whether the chain leads back to a path already visited (the rule is dropped) */
+  loop: boolean;
+}
+
+/**
+ * Result of exporting redirect rules
+ */
+export interface RedirectExport {
+  /** Input file */
+  inputPath: string;
+  /** Source site URL (reports only) */
+  sourceUrl: string | null;
+  /** Generated rules: exact rules first, then prefix rules */
+  rules: RedirectRule[];
+  /** Counts of input pairs and generated rules */
+  counts: {
+    pairs: number;
+    unchanged: number;
+    skipped: number;
+    exact: number;
+    prefix: number;
+  };
+  /** Source paths with more than one target; the first target is kept */
+  conflicts: Array<{ from: string; targets: string[] }>;
+  /** Chains that were flattened to their final target, and loops that were dropped */
+  chains: RedirectChain[];
+  /** Pairs left out of the rules, with the reason */
+  skipped: Array<{ from: string; reason: string }>;
+  /** Files written */
+  files: string[];
+  /** Timestamp when the rules were exported */
+  exportedAt: string;
+  /** Export configuration used */
+  config: RedirectExportConfig;
+}
+
+/**
+ * Commands whose options can be set in a project config file
+ */
+export type ProjectCommand = 'crawl' | 'validate';
+
+/**
+ * Option values for one command, keyed like the CLI flags in camelCase
+ * (`--max-depth` is `maxDepth`, `--no-calibrate` is `calibrate: false`)
+ */
+export type ProjectCommandSettings = Record<string, string | number | boolean | string[]>;
+
+/**
+ * A named source or destination environment
+ */
+export interface ProjectProfile {
+  /** Site URL: the crawl URL when used as source, the validate destination otherwise */
+  url?: string;
+  /** Crawl options used with this profile */
+  crawl?: ProjectCommandSettings;
+  /** Validate options used with this profile */
+  validate?: ProjectCommandSettings;
+}
+
+/**
+ * Project config file (url-migration.config.json, .js, .mjs or .ts)
+ */
+export interface ProjectConfig {
+  /** Profile used as the source by default */
+  source?: string;
+  /** Profile used as the destination by default */
+  destination?: string;
+  /** Crawl options for every profile */
+  crawl?: ProjectCommandSettings;
+  /** Validate options for every profile */
+  validate?: ProjectCommandSettings;
+  /** Named environments */
+  profiles?: Record<string, ProjectProfile>;
+}
+
 /**
  * FlareSolverr request payload
  */
@@ -0,0 +1,347 @@
+import * as cheerio from 'cheerio';
+import { fetch } from 'undici';
+import type { AuthConfig, FormLoginConfig } from '../types/index.js';
+import { createCookieJar, loadCookieJar, storeSetCookies, type CookieJar } from './cookies.js';
+import { fetchUrl, getHttpAgent, isRedirectStatus, requestHeaders } from './http.js';
+
+/**
+ * Placeholder written in place of literal secrets
+ */
+export const REDACTED = '[redacted]';
+
+/**
+ * Auth ready to be sent with requests
+ */
+export interface RequestAuth {
+  /** Hosts that get the headers, without "www." (other hosts in a redirect chain do not) */
+  hostnames: string[];
+  /** Authorization and custom headers */
+  headers: Record<string, string>;
+  /** Cookies from the cookie file, the login and later responses */
+  cookies: CookieJar;
+}
+
+/**
+ * Auth-related CLI options
+ */
+export interface AuthOptions {
+  /** --basic-auth user:password */
+  basicAuth?: string;
+  /** --bearer-token */
+  bearerToken?: string;
+  /** --header "Name: value" (repeatable) */
+  header?: string[];
+  /** --cookie-jar path */
+  cookieJar?: string;
+  /** --login-url */
+  loginUrl?: string;
+  /** --login-field name=value (repeatable) */
+  loginField?: string[];
+  /** --auth-host (repeatable) */
+  authHost?: string[];
+}
+
+/**
+ * Builds the auth config from CLI options, or undefined if none was given.
+ * Throws on malformed values.
+ */
+export function parseAuthOptions(options: AuthOptions): AuthConfig | undefined {
+  const auth: AuthConfig = {};
+
+  if (options.basicAuth !== undefined) {
+    if (!options.basicAuth.includes(':') && !hasEnvReference(options.basicAuth)) {
+      throw new Error('Invalid basic-auth value (expected user:password)');
+    }
+    auth.basic = options.basicAuth;
+  }
+  if (options.bearerToken !== undefined) {
+    if (auth.basic !== undefined) {
+      throw new Error('Use either --basic-auth or --bearer-token, not both');
+    }
+    auth.bearer = options.bearerToken;
+  }
+  if (options.header && options.header.length > 0) {
+    auth.headers = parsePairs(options.header, ':', 'header (expected "Name: value")');
+  }
+  if (options.cookieJar !== undefined) {
+    auth.cookieJar = options.cookieJar;
+  }
+  if (options.loginField && options.loginField.length > 0 && !options.loginUrl) {
+    throw new Error('--login-field needs --login-url');
+  }
+  if (options.loginUrl !== undefined) {
+    if (!options.loginField || options.loginField.length === 0) {
+      throw new Error('--login-url needs at least one --login-field name=value');
+    }
+    auth.login = { url: options.loginUrl, fields: parsePairs(options.loginField, '=', 'login field (expected name=value)') };
+  }
+  if (options.authHost && options.authHost.length > 0) {
+    if (Object.keys(auth).length === 0) {
+      throw new Error('--auth-host needs credentials to send (e.g. --basic-auth or --header)');
+    }
+    auth.hosts = options.authHost.map(host => {
+      const hostname = host.includes('://') ? hostnameOf(host) : hostnameOf(`http://${host}`);
+      if (!hostname) {
+        throw new Error(`Invalid auth-host value: ${host}`);
+      }
+      return hostname;
+    });
+  }
+
+  return Object.keys(auth).length > 0 ? auth : undefined;
+}
+
+/**
+ * Copy of an auth config that is safe to write into outputs: literal secrets
+ * are replaced, ${NAME} references are kept so a resumed run can expand them
+ */
+export function redactAuth(auth: AuthConfig | undefined): AuthConfig | undefined {
+  if (!auth) {
+    return undefined;
+  }
+  const redact = (value: string) => (isEnvReferenceOnly(value) ? value : REDACTED);
+  const redactValues = (values: Record<string, string>) =>
+    Object.fromEntries(Object.entries(values).map(([name, value]) => [name, redact(value)]));
+
+  return {
+    ...auth,
+    ...(auth.basic !== undefined ? { basic: redactBasic(auth.basic) } : {}),
+    ...(auth.bearer !== undefined ? { bearer: redact(auth.bearer) } : {}),
+    ...(auth.headers ? { headers: redactValues(auth.headers) } : {}),
+    ...(auth.login ? { login: { url: auth.login.url, fields: redactValues(auth.login.fields) } } : {}),
+  };
+}
+
+/**
+ * Expands environment references, loads the cookie file and performs the
+ * form login. Returns null when there is no auth.
+ */
+export async function resolveAuth(
+  auth: AuthConfig | undefined,
+  siteUrl: string,
+  timeout: number
+): Promise<RequestAuth | null> {
+  if (!auth) {
+    return null;
+  }
+
+  const headers: Record<string, string> = {};
+  if (auth.basic !== undefined) {
+    headers['Authorization'] = `Basic ${Buffer.from(expandEnv(auth.basic, 'basic auth')).toString('base64')}`;
+  }
+  if (auth.bearer !== undefined) {
+    headers['Authorization'] = `Bearer ${expandEnv(auth.bearer, 'bearer token')}`;
+  }
+  for (const [name, value] of Object.entries(auth.headers ?? {})) {
+    headers[name] = expandEnv(value, `header ${name}`);
+  }
+
+  const requestAuth: RequestAuth = {
+    hostnames: [],
+    headers,
+    cookies: auth.cookieJar ? await loadCookieJar(auth.cookieJar) : createCookieJar(),
+  };
+  addAuthHosts(requestAuth, [siteUrl, ...(auth.hosts ?? [])]);
+
+  if (auth.login) {
+    await performLogin(auth.login, requestAuth, timeout);
+  }
+
+  return requestAuth;
+}
+
+/**
+ * Lets more hosts receive the auth headers (e.g. absolute targets of a URL
+ * map). Takes URLs or hostnames; www and the bare host count as one.
+ */
+export function addAuthHosts(auth: RequestAuth, hosts: string[]): void {
+  for (const host of hosts) {
+    const hostname = bareHostname(host.includes('://') ? hostnameOf(host) ?? '' : host);
+    if (hostname && !auth.hostnames.includes(hostname)) {
+      auth.hostnames.push(hostname);
+    }
+  }
+}
+
+/**
+ * Whether a URL's host gets the auth headers
+ */
+export function sendsAuthTo(auth: RequestAuth, url: string): boolean {
+  const hostname = hostnameOf(url);
+  return hostname !== null && auth.hostnames.includes(bareHostname(hostname));
+}
+
+/**
+ * Describes the auth in use without revealing secrets
+ */
+export function describeAuth(auth: AuthConfig): string {
+  const parts = [
+    ...(auth.basic !== undefined ? [`basic (${auth.basic.split(':')[0]})`] : []),
+    ...(auth.bearer !== undefined ? ['bearer token'] : []),
+    ...Object.keys(auth.headers ?? {}).map(name => `header ${name}`),
+    ...(auth.cookieJar ? [`cookies from ${auth.cookieJar}`] : []),
+    ...(auth.login ? [`form login at ${auth.login.url}`] : []),
+    ...(auth.hosts && auth.hosts.length > 0 ? [`also for ${auth.hosts.join(', ')}`] : []),
+  ];
+  return parts.join(', ');
+}
+
+/**
+ * Fetches the login page, submits its form with the configured fields (plus
+ * hidden inputs such as CSRF tokens) and keeps the session cookies it sets
+ */
+async function performLogin(login: FormLoginConfig, auth: RequestAuth, timeout: number): Promise<void> {
+  const page = await fetchUrl(login.url, { timeout, retries: 1, auth });
+  if (page.error || page.statusCode >= 400) {
+    throw new Error(`Login page unavailable: ${login.url} (${page.error || page.statusCode})`);
+  }
+
+  const fields = Object.fromEntries(
+    Object.entries(login.fields).map(([name, value]) => [name, expandEnv(value, `login field ${name}`)])
+  );
+
+  // The form that has the configured fields, else the one with a password input
+  const $ = cheerio.load(page.body);
+  const forms = $('form').toArray();
+  const form = forms.find(f => Object.keys(fields).some(name => $(f).find(`[name="${name}"]`).length > 0))
+    ?? forms.find(f => $(f).find('input[type="password"]').length > 0);
+  if (!form) {
+    throw new Error(`No login form found on ${page.finalUrl}`);
+  }
+
+  const body = new URLSearchParams();
+  $(form).find('input[name]').each((_, input) => {
+    const name = $(input).attr('name')!;
+    const type = ($(input).attr('type') ?? 'text').toLowerCase();
+    if (!(name in fields) && type !== 'submit' && type !== 'checkbox' && type !== 'radio') {
+      body.append(name, $(input).attr('value') ?? '');
+    }
+  });
+  for (const [name, value] of Object.entries(fields)) {
+    body.append(name, value);
+  }
+
+  const action = new URL($(form).attr('action') || page.finalUrl, page.finalUrl).href;
+  const method = ($(form).attr('method') ?? 'post').toUpperCase();
+  const sessionBefore = JSON.stringify(auth.cookies.cookies);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  let status: number;
+  let location: string | null;
+  try {
+    const target = method === 'GET' ? `${action.split('?')[0]}?${body}` : action;
+    const response = await fetch(target, {
+      method: method === 'GET' ? 'GET' : 'POST',
+      headers: {
+        ...requestHeaders(target, { auth }),
+        ...(method === 'GET' ? {} : { 'Content-Type': 'application/x-www-form-urlencoded' }),
+      },
+      body: method === 'GET' ? undefined : body.toString(),
+      redirect: 'manual',
+      signal: controller.signal,
+      dispatcher: getHttpAgent(),
+    });
+    storeSetCookies(auth.cookies, target, response.headers.getSetCookie());
+    status = response.status;
+    location = isRedirectStatus(status) ? response.headers.get('location') : null;
+    await response.body?.cancel();
+  } catch (error) {
+    throw new Error(`Login request failed: ${action} (${(error as Error).message})`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (status >= 400) {
+    throw new Error(`Login failed: ${action} returned ${status}`);
+  }
+
+  // Cookies are often set again on the page the login redirects to
+  if (location) {
+    await fetchUrl(new URL(location, action).href, { timeout, retries: 0, auth });
+  }
+
+  if (JSON.stringify(auth.cookies.cookies) === sessionBefore) {
+    throw new Error(`Login at ${action} did not set any cookies (check the login fields)`);
+  }
+}
+
+/**
+ * Replaces ${NAME} references with environment variables
+ */
+function expandEnv(value: string, label: string): string {
+  if (value.includes(REDACTED)) {
+    throw new Error(`The ${label} was redacted from the saved config; give it again, or use a \${NAME} environment reference`);
+  }
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      throw new Error(`Environment variable ${name} (used in the ${label}) is not set`);
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Whether a value references an environment variable
+ */
+function hasEnvReference(value: string): boolean {
+  return /\$\{[A-Za-z_][A-Za-z0-9_]*\}/.test(value);
+}
+
+/**
+ * Whether a value is made up of ${NAME} references only (so it holds no literal secret)
+ */
+function isEnvReferenceOnly(value: string): boolean {
+  return /^(\$\{[A-Za-z_][A-Za-z0-9_]*\})+$/.test(value);
+}
+
+/**
+ * Redacts a basic auth value: the user name stays readable, the password is
+ * kept only if it is made up of ${NAME} references
+ */
+function redactBasic(basic: string): string {
+  if (isEnvReferenceOnly(basic)) {
+    return basic;
+  }
+  const separator = basic.indexOf(':');
+  if (separator === -1) {
+    return REDACTED;
+  }
+  const password = basic.slice(separator + 1);
+  return `${basic.slice(0, separator)}:${isEnvReferenceOnly(password) ? password : REDACTED}`;
+}
+
+/**
+ * Hostname of a URL, or null if invalid
+ */
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hostname without a leading "www."
+ */
+function bareHostname(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Parses "name<separator>value" entries
+ */
+function parsePairs(entries: string[], separator: string, label: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const entry of entries) {
+    const index = entry.indexOf(separator);
+    const name = index > 0 ? entry.slice(0, index).trim() : '';
+    if (!name) {
+      throw new Error(`Invalid ${label}: ${entry}`);
+    }
+    pairs[name] = entry.slice(index + 1).trim();
+  }
+  return pairs;
+}
@@ -0,0 +1,22 @@
+import path from 'node:path';
+import fse from 'fs-extra';
+
+/**
+ * Returns the sidecar checkpoint path for an output file
+ * (e.g. crawl-example.com.json -> crawl-example.com.checkpoint.json)
+ */
+export function getCheckpointPath(outputPath: string): string {
+  const ext = path.extname(outputPath);
+  const base = ext ? outputPath.slice(0, -ext.length) : outputPath;
+  return `${base}.checkpoint${ext || '.json'}`;
+}
+
+/**
+ * Writes JSON to a temporary file and renames it into place, so an
+ * interruption mid-write never leaves a truncated file behind
+ */
+export async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  const tmpPath = `${filePath}.tmp`;
+  await fse.writeJson(tmpPath, data);
+  await fse.move(tmpPath, filePath, { overwrite: true });
+}
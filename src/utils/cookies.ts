@@ -0,0 +1,184 @@
+import fse from 'fs-extra';
+
+/**
+ * A stored cookie
+ */
+export interface Cookie {
+  /** Cookie name */
+  name: string;
+  /** Cookie value */
+  value: string;
+  /** Domain without a leading dot */
+  domain: string;
+  /** Whether subdomains of the domain also get the cookie */
+  includeSubdomains: boolean;
+  /** Path prefix the cookie applies to */
+  path: string;
+  /** Only sent over https */
+  secure: boolean;
+  /** Expiry as a Unix timestamp in seconds (0 for session cookies) */
+  expires: number;
+}
+
+/**
+ * Cookies sent with requests and updated from Set-Cookie responses
+ */
+export interface CookieJar {
+  /** Stored cookies; a later cookie with the same name, domain and path replaces an earlier one */
+  cookies: Cookie[];
+}
+
+/**
+ * Creates an empty cookie jar
+ */
+export function createCookieJar(): CookieJar {
+  return { cookies: [] };
+}
+
+/**
+ * Loads a Netscape cookie file (as written by curl, wget and browser
+ * extensions). Lines are domain, subdomains flag, path, secure flag, expiry,
+ * name and value, separated by tabs.
+ */
+export async function loadCookieJar(jarPath: string): Promise<CookieJar> {
+  const text = await fse.readFile(jarPath, 'utf8');
+  const jar = createCookieJar();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    // curl marks HttpOnly cookies with a prefix on an otherwise commented line
+    const line = rawLine.startsWith('#HttpOnly_') ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+    if (!line.trim() || line.startsWith('#')) return;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) {
+      throw new Error(`${jarPath}:${index + 1}: expected 7 tab-separated fields`);
+    }
+    const [domain, includeSubdomains, cookiePath, secure, expires, name, ...value] = fields;
+    storeCookie(jar, {
+      name,
+      value: value.join('\t'),
+      domain: domain.replace(/^\./, '').toLowerCase(),
+      includeSubdomains: includeSubdomains.toUpperCase() === 'TRUE',
+      path: cookiePath || '/',
+      secure: secure.toUpperCase() === 'TRUE',
+      expires: parseInt(expires, 10) || 0,
+    });
+  });
+
+  return jar;
+}
+
+/**
+ * Cookies that apply to a URL, more specific paths first (as browsers send them)
+ */
+export function getCookies(jar: CookieJar, url: string): Cookie[] {
+  const target = new URL(url);
+  const host = target.hostname.toLowerCase();
+  const now = Date.now() / 1000;
+
+  return jar.cookies
+    .filter(cookie =>
+      (host === cookie.domain || (cookie.includeSubdomains && domainMatches(host, cookie.domain))) &&
+      pathMatches(target.pathname, cookie.path) &&
+      (!cookie.secure || target.protocol === 'https:') &&
+      (cookie.expires === 0 || cookie.expires > now)
+    )
+    .sort((a, b) => b.path.length - a.path.length);
+}
+
+/**
+ * Builds the Cookie header for a request, or null if no cookie applies
+ */
+export function getCookieHeader(jar: CookieJar, url: string): string | null {
+  const cookies = getCookies(jar, url);
+  return cookies.length > 0 ? cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : null;
+}
+
+/**
+ * Stores the cookies a response set
+ */
+export function storeSetCookies(jar: CookieJar, url: string, setCookieHeaders: string[]): void {
+  const source = new URL(url);
+  for (const header of setCookieHeaders) {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+
+    const cookie: Cookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: source.hostname.toLowerCase(),
+      includeSubdomains: false,
+      path: defaultPath(source.pathname),
+      secure: false,
+      expires: 0,
+    };
+
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split('=');
+      const key = rawKey.trim().toLowerCase();
+      const value = rest.join('=').trim();
+      if (key === 'domain' && value) {
+        // A host may only set cookies for itself or a parent domain; any other
+        // Domain is ignored, so a third-party hop cannot plant cookies for the site
+        const domain = value.replace(/^\./, '').toLowerCase();
+        if (domainMatches(cookie.domain, domain)) {
+          cookie.domain = domain;
+          cookie.includeSubdomains = true;
+        }
+      } else if (key === 'path' && value.startsWith('/')) {
+        cookie.path = value;
+      } else if (key === 'secure') {
+        cookie.secure = true;
+      } else if (key === 'max-age') {
+        // Max-Age wins over Expires; zero or less deletes the cookie
+        const seconds = parseInt(value, 10);
+        if (!isNaN(seconds)) {
+          cookie.expires = seconds > 0 ? Math.floor(Date.now() / 1000) + seconds : -1;
+        }
+      } else if (key === 'expires' && cookie.expires === 0) {
+        const time = Date.parse(value);
+        if (!isNaN(time)) {
+          cookie.expires = Math.floor(time / 1000) || -1;
+        }
+      }
+    }
+
+    storeCookie(jar, cookie);
+  }
+}
+
+/**
+ * Adds or replaces a cookie; expired cookies are removed instead
+ */
+function storeCookie(jar: CookieJar, cookie: Cookie): void {
+  jar.cookies = jar.cookies.filter(c =>
+    !(c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path)
+  );
+  if (cookie.expires === 0 || cookie.expires > Date.now() / 1000) {
+    jar.cookies.push(cookie);
+  }
+}
+
+/**
+ * Checks whether a host is a domain or one of its subdomains
+ */
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Checks whether a request path is inside a cookie path
+ */
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  return requestPath === cookiePath ||
+    (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+}
+
+/**
+ * Default cookie path: the request path up to its last slash
+ */
+function defaultPath(requestPath: string): string {
+  const lastSlash = requestPath.lastIndexOf('/');
+  return lastSlash > 0 ? requestPath.slice(0, lastSlash) : '/';
+}
@@ -0,0 +1,70 @@
+import { createHash } from 'node:crypto';
+import type { ContentFingerprint } from '../types/index.js';
+
+/**
+ * Words per shingle
+ */
+const SHINGLE_SIZE = 3;
+
+/**
+ * Fingerprints normalized page text as a 64-bit simhash over word shingles.
+ * Similar texts get fingerprints that differ in few bits.
+ */
+export function fingerprintText(text: string): ContentFingerprint {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  // Short texts are fingerprinted as a single shingle
+  const shingles: string[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.push(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  if (shingles.length === 0 && words.length > 0) {
+    shingles.push(words.join(' '));
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (const shingle of shingles) {
+    const digest = createHash('md5').update(shingle).digest();
+    const halves = [digest.readUInt32BE(0), digest.readUInt32BE(4)];
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      weights[bit] += set ? 1 : -1;
+    }
+  }
+
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      halves[bit >> 5] |= 1 << (bit & 31);
+    }
+  }
+
+  return {
+    simhash: halves.map(h => (h >>> 0).toString(16).padStart(8, '0')).join(''),
+    wordCount: words.length,
+  };
+}
+
+/**
+ * Similarity of two fingerprints from 0 to 1 (share of matching simhash bits).
+ * Unrelated texts score around 0.5.
+ */
+export function compareFingerprints(a: ContentFingerprint, b: ContentFingerprint): number {
+  if (a.wordCount === 0 || b.wordCount === 0) {
+    return a.wordCount === b.wordCount ? 1 : 0;
+  }
+  let differing = 0;
+  for (let i = 0; i < 2; i++) {
+    let xor = (parseInt(a.simhash.slice(i * 8, i * 8 + 8), 16) ^ parseInt(b.simhash.slice(i * 8, i * 8 + 8), 16)) >>> 0;
+    while (xor) {
+      differing += xor & 1;
+      xor >>>= 1;
+    }
+  }
+  return 1 - differing / 64;
+}
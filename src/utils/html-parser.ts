@@ -1,15 +1,21 @@
 import * as cheerio from 'cheerio';
-import type { ParsedPage } from '../types/index.js';
+import type { CheerioAPI } from 'cheerio';
+import type { HreflangLink, PageMetadata, ParsedPage } from '../types/index.js';
 
 /**
- * Parses HTML and extracts title, links, and body content
+ * Parses HTML into a document and extracts title, links, body content,
+ * metadata and which of the given selectors match
  */
-export function parseHtml(html: string, baseUrl: string): ParsedPage {
+export function parseHtml(html: string, baseUrl: string, selectors: string[] = []): ParsedPage {
   const $ = cheerio.load(html);
 
   // Extract title
   const title = $('title').first().text().trim() || null;
 
+  // Extract SEO metadata and match selectors before the DOM is modified
+  const metadata = readMetadata($, baseUrl);
+  const matchedSelectors = selectors.filter(selector => $(selector).length > 0);
+
   // Extract all links
   const links: string[] = [];
   $('a[href]').each((_, element) => {
@@ -34,27 +40,67 @@ export function parseHtml(html: string, baseUrl: string): ParsedPage {
     links: [...new Set(links)], // Remove duplicates
     bodyText,
     contentLength: bodyText.length,
+    metadata,
+    matchedSelectors,
   };
 }
 
 /**
- * Extracts just the title from HTML (faster for validation)
+ * Reads SEO metadata from a loaded document
  */
-export function extractTitle(html: string): string | null {
-  const $ = cheerio.load(html);
-  const title = $('title').first().text().trim();
-  return title || null;
+function readMetadata($: CheerioAPI, baseUrl: string): PageMetadata {
+  const metaContent = (name: string) =>
+    $(`meta[name="${name}" i]`).first().attr('content')?.trim() || null;
+
+  const h1s: string[] = [];
+  $('h1').each((_, element) => {
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (text) {
+      h1s.push(text);
+    }
+  });
+
+  const canonicalHref = $('link[rel="canonical" i]').first().attr('href')?.trim();
+  const canonical = canonicalHref ? resolveUrl(canonicalHref, baseUrl) : null;
+
+  const openGraph: Record<string, string> = {};
+  $('meta[property^="og:" i]').each((_, element) => {
+    const property = $(element).attr('property')?.toLowerCase();
+    const content = $(element).attr('content')?.trim();
+    if (property && content && !(property in openGraph)) {
+      openGraph[property] = content;
+    }
+  });
+
+  const hreflang: HreflangLink[] = [];
+  $('link[rel="alternate" i][hreflang]').each((_, element) => {
+    const lang = $(element).attr('hreflang')?.trim().toLowerCase();
+    const href = $(element).attr('href')?.trim();
+    const resolved = href ? resolveUrl(href, baseUrl) : null;
+    if (lang && resolved) {
+      hreflang.push({ lang, href: resolved });
+    }
+  });
+
+  return {
+    metaDescription: metaContent('description'),
+    h1s,
+    canonical,
+    metaRobots: metaContent('robots'),
+    openGraph,
+    hreflang,
+  };
 }
 
 /**
- * Extracts body text for soft 404 detection
+ * Resolves a possibly relative URL against a base, or null if invalid
  */
-export function extractBodyText(html: string): string {
-  const $ = cheerio.load(html);
-  $('script, style, noscript').remove();
-  return $('body').text()
-    .replace(/\s+/g, ' ')
-    .trim();
+export function resolveUrl(href: string, baseUrl: string): string | null {
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -130,6 +176,25 @@ export function getDomain(url: string): string {
   }
 }
 
+/**
+ * Compares two URLs ignoring hash, trailing slash and default ports
+ */
+export function sameUrl(a: string, b: string): boolean {
+  const normalize = (url: string) => {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      if (parsed.pathname !== '/' && parsed.pathname.endsWith('/')) {
+        parsed.pathname = parsed.pathname.slice(0, -1);
+      }
+      return parsed.href;
+    } catch {
+      return url;
+    }
+  };
+  return normalize(a) === normalize(b);
+}
+
 /**
  * Joins a path with a base URL
  */
@@ -0,0 +1,149 @@
+import { Parser } from 'htmlparser2';
+import type { HreflangLink, ParsedPage } from '../types/index.js';
+import { isInternalLink, normalizeLink, resolveUrl } from './html-parser.js';
+
+/**
+ * Elements whose text is not part of the body text (a <title> only
+ * before <body>, where a browser would place it in the head)
+ */
+const NON_BODY_TEXT_ELEMENTS = ['head', 'script', 'style', 'noscript', 'template'];
+
+/**
+ * Parses HTML in a single pass without building a document. Extracts the
+ * same title, links, body text and metadata as parseHtml, but cannot match
+ * selectors.
+ */
+export function parseHtmlStream(html: string, baseUrl: string): ParsedPage {
+  let title: string | null = null;
+  let titleText: string[] | null = null;
+  let titleSeen = false;
+  const links: string[] = [];
+  const text: string[] = [];
+  let skipDepth = 0;
+  let bodySeen = false;
+  let skipTitle = false;
+
+  const h1s: string[] = [];
+  let h1Text: string[] | null = null;
+  let metaDescription: string | null | undefined;
+  let metaRobots: string | null | undefined;
+  let canonical: string | null | undefined;
+  const openGraph: Record<string, string> = {};
+  const hreflang: HreflangLink[] = [];
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        if (NON_BODY_TEXT_ELEMENTS.includes(name)) {
+          skipDepth++;
+        }
+
+        switch (name) {
+          case 'body':
+            bodySeen = true;
+            break;
+          case 'title':
+            skipTitle = !bodySeen;
+            // The first <title> is the page title, as in parseHtml
+            if (!titleSeen) {
+              titleSeen = true;
+              titleText = [];
+            }
+            break;
+          case 'h1':
+            h1Text = [];
+            break;
+          case 'a': {
+            const normalizedLink = attribs.href ? normalizeLink(attribs.href, baseUrl) : null;
+            if (normalizedLink && isInternalLink(normalizedLink, baseUrl)) {
+              links.push(normalizedLink);
+            }
+            break;
+          }
+          case 'meta': {
+            // Only the first tag of each kind counts, as in parseHtml
+            const metaName = attribs.name?.toLowerCase();
+            if (metaName === 'description' && metaDescription === undefined) {
+              metaDescription = attribs.content?.trim() || null;
+            } else if (metaName === 'robots' && metaRobots === undefined) {
+              metaRobots = attribs.content?.trim() || null;
+            }
+            const property = attribs.property?.toLowerCase();
+            const content = attribs.content?.trim();
+            if (property?.startsWith('og:') && content && !(property in openGraph)) {
+              openGraph[property] = content;
+            }
+            break;
+          }
+          case 'link': {
+            const rel = attribs.rel?.toLowerCase();
+            const href = attribs.href?.trim();
+            if (rel === 'canonical' && canonical === undefined) {
+              canonical = href ? resolveUrl(href, baseUrl) : null;
+            } else if (rel === 'alternate' && attribs.hreflang !== undefined) {
+              const lang = attribs.hreflang.trim().toLowerCase();
+              const resolved = href ? resolveUrl(href, baseUrl) : null;
+              if (lang && resolved) {
+                hreflang.push({ lang, href: resolved });
+              }
+            }
+            break;
+          }
+        }
+      },
+      ontext(data) {
+        titleText?.push(data);
+        h1Text?.push(data);
+        if (skipDepth === 0 && !skipTitle) {
+          text.push(data);
+        }
+      },
+      onclosetag(name) {
+        if (NON_BODY_TEXT_ELEMENTS.includes(name) && skipDepth > 0) {
+          skipDepth--;
+        }
+
+        if (name === 'title') {
+          skipTitle = false;
+          if (titleText) {
+            title = titleText.join('').trim() || null;
+            titleText = null;
+          }
+        } else if (name === 'h1' && h1Text) {
+          const heading = collapseWhitespace(h1Text.join(''));
+          if (heading) {
+            h1s.push(heading);
+          }
+          h1Text = null;
+        }
+      },
+    },
+    { decodeEntities: true }
+  );
+  parser.end(html);
+
+  const bodyText = collapseWhitespace(text.join(''));
+
+  return {
+    title,
+    links: [...new Set(links)],
+    bodyText,
+    contentLength: bodyText.length,
+    metadata: {
+      metaDescription: metaDescription ?? null,
+      h1s,
+      canonical: canonical ?? null,
+      metaRobots: metaRobots ?? null,
+      openGraph,
+      hreflang,
+    },
+    matchedSelectors: [],
+  };
+}
+
+/**
+ * Collapses runs of whitespace into single spaces and trims
+ */
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
@@ -1,5 +1,17 @@
-import { fetch, type Response } from 'undici';
-import type { FetchResult, FlareSolverrRequest, FlareSolverrResponse } from '../types/index.js';
+import { StringDecoder } from 'node:string_decoder';
+import { Agent, fetch, type Response } from 'undici';
+import type {
+  FetchResult,
+  FlareSolverrCookie,
+  FlareSolverrRequest,
+  FlareSolverrResponse,
+  RedirectHop,
+  ResolveOverride,
+} from '../types/index.js';
+import { sendsAuthTo, type RequestAuth } from './auth.js';
+import { getCookieHeader, storeSetCookies } from './cookies.js';
+import { createResolveConnector } from './resolve.js';
+import { MAX_THROTTLE_RETRIES, type HostScheduler } from './scheduler.js';
 
 /**
  * Default request headers to mimic a real browser
@@ -10,6 +22,81 @@ const DEFAULT_HEADERS = {
   'Accept-Language': 'en-US,en;q=0.5',
 };
 
+/**
+ * Idle time before a pooled connection is closed
+ */
+const KEEP_ALIVE_TIMEOUT_MS = 10000;
+
+/**
+ * Longest idle time accepted from a server's Keep-Alive header
+ */
+const KEEP_ALIVE_MAX_TIMEOUT_MS = 60000;
+
+/**
+ * Largest response body kept by default; longer bodies are cut off
+ */
+export const DEFAULT_MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Bytes read past </title> when only the head of a page is needed
+ */
+const HEAD_TEXT_BYTES = 16 * 1024;
+
+/**
+ * Bytes read looking for </title> before a head-only read gives up
+ */
+const HEAD_SCAN_BYTES = 64 * 1024;
+
+/**
+ * Settings of the shared HTTP agent
+ */
+export interface HttpAgentOptions {
+  /** Connections kept open per origin (default: no limit) */
+  connections?: number;
+  /** Negotiate HTTP/2 with servers that offer it over TLS */
+  http2?: boolean;
+  /** Host-to-address overrides (--resolve) */
+  resolve?: ResolveOverride[];
+}
+
+/**
+ * Agent shared by every request: one connection pool per origin, with
+ * keep-alive so large runs reuse connections instead of opening one per URL
+ */
+let agent: Agent | null = null;
+
+/**
+ * Replaces the shared agent; requests already in flight finish on the old one
+ */
+export function configureHttpAgent(options: HttpAgentOptions): void {
+  const previous = agent;
+  agent = createAgent(options);
+  void previous?.close();
+}
+
+/**
+ * The shared agent, created with default settings on first use
+ */
+export function getHttpAgent(): Agent {
+  agent ??= createAgent({});
+  return agent;
+}
+
+/**
+ * Creates an agent with tuned keep-alive
+ */
+function createAgent(options: HttpAgentOptions): Agent {
+  const { connections, http2 = false, resolve = [] } = options;
+  return new Agent({
+    connections: connections ?? null,
+    keepAliveTimeout: KEEP_ALIVE_TIMEOUT_MS,
+    keepAliveMaxTimeout: KEEP_ALIVE_MAX_TIMEOUT_MS,
+    allowH2: http2,
+    // The connector negotiates HTTP/2 (ALPN), so it needs the setting too
+    connect: createResolveConnector(resolve, { allowH2: http2 }),
+  });
+}
+
 /**
  * Options for fetchUrl
  */
@@ -22,10 +109,27 @@ export interface FetchOptions {
   followRedirects?: boolean;
   /** Additional headers */
   headers?: Record<string, string>;
+  /** Credentials and cookies for the site being checked */
+  auth?: RequestAuth | null;
+  /** Per-host scheduler; throttled (429/503) responses are retried after its backoff */
+  scheduler?: HostScheduler | null;
+  /** Largest body kept in bytes (default: DEFAULT_MAX_BODY_SIZE) */
+  maxBodySize?: number;
+  /**
+   * Which responses need the whole body: 'always' (default), or 'success',
+   * where other responses stop reading once the title and a little text are in
+   */
+  fullBody?: 'always' | 'success';
 }
 
 /**
- * Fetches a URL with retries, timeout, and redirect handling
+ * Maximum redirects followed before giving up (matches fetch's own limit)
+ */
+const MAX_REDIRECTS = 20;
+
+/**
+ * Fetches a URL with retries, timeout, and redirect handling.
+ * Redirects are followed one hop at a time so the full chain is recorded.
  */
 export async function fetchUrl(
   url: string,
@@ -36,62 +140,101 @@ export async function fetchUrl(
     retries = 2,
     followRedirects = true,
     headers = {},
+    auth = null,
+    scheduler = null,
+    maxBodySize = DEFAULT_MAX_BODY_SIZE,
+    fullBody = 'always',
   } = options;
 
   let lastError: Error | null = null;
+  let lastChain: RedirectHop[] = [];
   let attempt = 0;
+  let throttleRetries = 0;
 
   while (attempt <= retries) {
     attempt++;
+    const release = scheduler ? await scheduler.acquire(url) : null;
     const startTime = Date.now();
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-      const response: Response = await fetch(url, {
-        method: 'GET',
-        headers: { ...DEFAULT_HEADERS, ...headers },
+    let chain: RedirectChainResult;
+    try {
+      chain = await followRedirectChain(url, {
+        headers,
+        auth,
         signal: controller.signal,
-        redirect: followRedirects ? 'follow' : 'manual',
+        maxRedirects: followRedirects ? MAX_REDIRECTS : 0,
       });
-
       clearTimeout(timeoutId);
 
-      const body = await response.text();
-      const responseTimeMs = Date.now() - startTime;
+      if (chain.response) {
+        const finalUrl = chain.hops[chain.hops.length - 1].url;
+
+        // A throttled request waits for the host's backoff and does not use up a retry
+        const throttled = scheduler?.recordResponse(
+          finalUrl,
+          chain.response.status,
+          chain.response.headers.get('retry-after')
+        );
+        if (throttled && throttleRetries < MAX_THROTTLE_RETRIES) {
+          await chain.response.body?.cancel();
+          throttleRetries++;
+          attempt--;
+          continue;
+        }
 
-      // Check if we were redirected
-      const finalUrl = response.url || url;
-      const wasRedirected = finalUrl !== url;
+        // A connection dropped while the body streams fails the attempt like a failed request
+        const headOnly = fullBody === 'success' && !isSuccessStatus(chain.response.status);
+        const read = await readBody(chain.response, maxBodySize, headOnly).catch((error: Error) => {
+          chain.error = error;
+          return null;
+        });
 
+        if (read) {
+          return {
+            statusCode: chain.response.status,
+            body: read.body,
+            ...(read.truncated ? { bodyTruncated: true } : {}),
+            finalUrl,
+            wasRedirected: finalUrl !== url,
+            responseTimeMs: Date.now() - startTime,
+            headers: Object.fromEntries(chain.response.headers),
+            redirectChain: chain.hops,
+            ...(chain.loop ? { redirectLoop: true } : {}),
+            ...(chain.tooManyRedirects && followRedirects
+              ? { error: `Too many redirects (more than ${MAX_REDIRECTS})` }
+              : {}),
+          };
+        }
+      }
+    } finally {
+      release?.();
+    }
+
+    scheduler?.recordFailure(url);
+    lastError = chain.error!;
+    lastChain = chain.hops;
+    const responseTimeMs = Date.now() - startTime;
+
+    // Check if it's an abort error (timeout)
+    if (lastError.name === 'AbortError') {
       return {
-        statusCode: response.status,
-        body,
-        finalUrl,
-        wasRedirected,
+        statusCode: 0,
+        body: '',
+        finalUrl: url,
+        wasRedirected: false,
         responseTimeMs,
+        headers: {},
+        redirectChain: chain.hops,
+        error: `Request timeout after ${timeout}ms`,
       };
-    } catch (error) {
-      lastError = error as Error;
-      const responseTimeMs = Date.now() - startTime;
-
-      // Check if it's an abort error (timeout)
-      if (lastError.name === 'AbortError') {
-        return {
-          statusCode: 0,
-          body: '',
-          finalUrl: url,
-          wasRedirected: false,
-          responseTimeMs,
-          error: `Request timeout after ${timeout}ms`,
-        };
-      }
+    }
 
-      // If not the last attempt, wait a bit before retrying
-      if (attempt <= retries) {
-        await sleep(Math.min(1000 * attempt, 3000)); // Exponential backoff, max 3s
-      }
+    // If not the last attempt, wait a bit before retrying
+    if (attempt <= retries) {
+      await sleep(Math.min(1000 * attempt, 3000)); // Exponential backoff, max 3s
     }
   }
 
@@ -101,10 +244,296 @@ export async function fetchUrl(
     finalUrl: url,
     wasRedirected: false,
     responseTimeMs: 0,
+    headers: {},
+    redirectChain: lastChain,
     error: lastError?.message || 'Unknown error',
   };
 }
 
+/**
+ * Reads a response body up to maxBodySize bytes. A head-only read stops
+ * once </title> and some text after it are in. Stopping early closes the
+ * connection, which is cheaper than downloading a large body nobody reads.
+ */
+async function readBody(
+  response: Response,
+  maxBodySize: number,
+  headOnly: boolean
+): Promise<{ body: string; truncated: boolean }> {
+  if (!response.body) {
+    return { body: '', truncated: false };
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let limit = headOnly ? Math.min(HEAD_SCAN_BYTES, maxBodySize) : maxBodySize;
+  let titleFound = false;
+  let truncated = false;
+  // Last bytes of the previous chunks, so a </title> split across chunks is found
+  let tail = Buffer.alloc(0);
+
+  for await (const value of response.body) {
+    const chunk = Buffer.from(value);
+
+    if (headOnly && !titleFound) {
+      const scanned = Buffer.concat([tail, chunk]);
+      const index = scanned.toString('latin1').search(/<\/title/i);
+      if (index >= 0) {
+        titleFound = true;
+        limit = Math.min(size - tail.length + index + HEAD_TEXT_BYTES, maxBodySize);
+      }
+      tail = scanned.subarray(-('</title'.length - 1));
+    }
+
+    chunks.push(chunk);
+    size += chunk.length;
+    if (size > limit) {
+      truncated = true;
+      break;
+    }
+  }
+
+  // Leaving the loop early cancels the rest of the body. A multi-byte
+  // character cut at the limit is dropped rather than decoded as U+FFFD.
+  const decoder = new StringDecoder('utf8');
+  const body = decoder.write(Buffer.concat(chunks).subarray(0, Math.min(size, limit)));
+  return { body: truncated ? body : body + decoder.end(), truncated };
+}
+
+/**
+ * Outcome of following a redirect chain
+ */
+interface RedirectChainResult {
+  /** Every request made, in order */
+  hops: RedirectHop[];
+  /** Last response, body unread (null if a request failed or a Location was invalid) */
+  response: Response | null;
+  /** Whether the chain revisited a URL (response is the redirect that looped) */
+  loop: boolean;
+  /** Whether the chain was cut off at maxRedirects (response is the last redirect) */
+  tooManyRedirects: boolean;
+  /** Error thrown by the failing request, or raised for an invalid Location */
+  error?: Error;
+  /** URL whose request failed or whose Location was invalid */
+  failedUrl?: string;
+}
+
+/**
+ * Follows redirects manually, recording each hop and discarding the bodies
+ * of intermediate redirect responses
+ */
+async function followRedirectChain(
+  url: string,
+  options: { headers: Record<string, string>; auth: RequestAuth | null; signal: AbortSignal; maxRedirects: number }
+): Promise<RedirectChainResult> {
+  const hops: RedirectHop[] = [];
+  const seen = new Set<string>();
+  let currentUrl = url;
+
+  while (true) {
+    seen.add(currentUrl);
+    const startTime = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetch(currentUrl, {
+        method: 'GET',
+        headers: requestHeaders(currentUrl, options),
+        signal: options.signal,
+        redirect: 'manual',
+        dispatcher: getHttpAgent(),
+      });
+    } catch (error) {
+      return {
+        hops,
+        response: null,
+        loop: false,
+        tooManyRedirects: false,
+        error: error as Error,
+        failedUrl: currentUrl,
+      };
+    }
+    if (options.auth) {
+      storeSetCookies(options.auth.cookies, currentUrl, response.headers.getSetCookie());
+    }
+
+    const location = isRedirectStatus(response.status) ? response.headers.get('location') : null;
+    hops.push({
+      url: currentUrl,
+      statusCode: response.status,
+      location,
+      responseTimeMs: Date.now() - startTime,
+    });
+
+    if (!location) {
+      return { hops, response, loop: false, tooManyRedirects: false };
+    }
+
+    let nextUrl: string;
+    try {
+      nextUrl = new URL(location, currentUrl).href;
+    } catch {
+      await response.body?.cancel();
+      return {
+        hops,
+        response: null,
+        loop: false,
+        tooManyRedirects: false,
+        error: new Error(`Invalid redirect Location header: ${location}`),
+        failedUrl: currentUrl,
+      };
+    }
+
+    const loop = seen.has(nextUrl);
+    const tooManyRedirects = hops.length > options.maxRedirects;
+    if (loop || tooManyRedirects) {
+      return { hops, response, loop, tooManyRedirects };
+    }
+
+    await response.body?.cancel();
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * Headers for one request. Auth headers only go to the authenticated hosts,
+ * so a redirect to another site does not leak them; cookies follow their own
+ * domain rules.
+ */
+export function requestHeaders(
+  url: string,
+  options: { headers?: Record<string, string>; auth?: RequestAuth | null }
+): Record<string, string> {
+  const { auth } = options;
+  const cookie = auth ? getCookieHeader(auth.cookies, url) : null;
+  return {
+    ...DEFAULT_HEADERS,
+    ...options.headers,
+    ...(auth && sendsAuthTo(auth, url) ? auth.headers : {}),
+    ...(cookie ? { Cookie: cookie } : {}),
+  };
+}
+
+/**
+ * Result of a raw (binary) fetch
+ */
+export interface BufferFetchResult {
+  /** HTTP status code (0 on network error) */
+  statusCode: number;
+  /** Response body as raw bytes */
+  body: Buffer;
+  /** Error message if request failed */
+  error?: string;
+}
+
+/**
+ * Fetches a URL and returns the raw response body (e.g. for gzipped sitemaps).
+ * A body over maxBodySize is an error, since a partial file is of no use.
+ */
+export async function fetchBuffer(
+  url: string,
+  options: Pick<FetchOptions, 'timeout' | 'headers' | 'auth' | 'maxBodySize'> = {}
+): Promise<BufferFetchResult> {
+  const { timeout = 10000, headers = {}, auth = null, maxBodySize = DEFAULT_MAX_BODY_SIZE } = options;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: requestHeaders(url, { headers, auth }),
+      signal: controller.signal,
+      dispatcher: getHttpAgent(),
+    });
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const value of response.body ?? []) {
+      chunks.push(Buffer.from(value));
+      size += value.length;
+      if (size > maxBodySize) {
+        // Leaving the loop early cancels the rest of the body
+        return {
+          statusCode: response.status,
+          body: Buffer.alloc(0),
+          error: `Response larger than ${maxBodySize} bytes`,
+        };
+      }
+    }
+
+    return { statusCode: response.status, body: Buffer.concat(chunks, size) };
+  } catch (error) {
+    const err = error as Error;
+    return {
+      statusCode: 0,
+      body: Buffer.alloc(0),
+      error: err.name === 'AbortError'
+        ? `Request timeout after ${timeout}ms`
+        : err.message || 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Result of tracing a redirect chain
+ */
+export interface RedirectTrace {
+  /** Every request made, in order (the last one is where the chain ended) */
+  hops: RedirectHop[];
+  /** Whether the chain revisited a URL */
+  loop: boolean;
+  /** Error message if a request failed or the chain was cut off */
+  error?: string;
+}
+
+/**
+ * Follows a redirect chain one hop at a time without reading bodies
+ */
+export async function traceRedirects(
+  url: string,
+  options: Pick<FetchOptions, 'timeout' | 'headers' | 'auth'> & { maxRedirects?: number } = {}
+): Promise<RedirectTrace> {
+  const { timeout = 10000, headers = {}, auth = null, maxRedirects = MAX_REDIRECTS } = options;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const chain = await followRedirectChain(url, { headers, auth, signal: controller.signal, maxRedirects });
+  clearTimeout(timeoutId);
+  await chain.response?.body?.cancel();
+
+  if (chain.error) {
+    const failedUrl = chain.failedUrl ?? url;
+    return {
+      hops: chain.hops,
+      loop: false,
+      error: chain.error.name === 'AbortError'
+        ? `Request timeout after ${timeout}ms: ${failedUrl}`
+        : `${chain.error.message || 'Unknown error'}: ${failedUrl}`,
+    };
+  }
+
+  if (chain.tooManyRedirects && !chain.loop) {
+    return { hops: chain.hops, loop: false, error: `Stopped after ${maxRedirects} redirects` };
+  }
+
+  return { hops: chain.hops, loop: chain.loop };
+}
+
+/**
+ * Parses a size such as 512kb, 5mb or a plain byte count (NaN if invalid)
+ */
+export function parseByteSize(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(value.trim());
+  if (!match) {
+    return NaN;
+  }
+  const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+  return Math.round(parseFloat(match[1]) * units[(match[2] ?? 'b').toLowerCase()]);
+}
+
 /**
  * Sleep for a specified number of milliseconds
  */
@@ -148,6 +577,10 @@ export interface FlareSolverrFetchOptions {
   flaresolverrUrl: string;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Cookies the browser sends (FlareSolverr cannot send other headers) */
+  cookies?: FlareSolverrCookie[];
+  /** Per-host scheduler; throttled (429/503) pages are requested again after its backoff */
+  scheduler?: HostScheduler | null;
 }
 
 /**
@@ -157,7 +590,42 @@ export async function fetchUrlWithFlareSolverr(
   url: string,
   options: FlareSolverrFetchOptions
 ): Promise<FetchResult> {
-  const { flaresolverrUrl, timeout = 60000 } = options;
+  const { scheduler = null } = options;
+  let throttleRetries = 0;
+
+  while (true) {
+    const release = scheduler ? await scheduler.acquire(url) : null;
+    let result: FetchResult;
+    try {
+      result = await requestFlareSolverr(url, options);
+    } finally {
+      release?.();
+    }
+
+    if (!scheduler) {
+      return result;
+    }
+    if (result.statusCode === 0) {
+      scheduler.recordFailure(url);
+      return result;
+    }
+    // FlareSolverr does not pass on Retry-After, so the exponential backoff applies
+    if (scheduler.recordResponse(result.finalUrl, result.statusCode, null) && throttleRetries < MAX_THROTTLE_RETRIES) {
+      throttleRetries++;
+      continue;
+    }
+    return result;
+  }
+}
+
+/**
+ * Sends one request through FlareSolverr
+ */
+async function requestFlareSolverr(
+  url: string,
+  options: FlareSolverrFetchOptions
+): Promise<FetchResult> {
+  const { flaresolverrUrl, timeout = 60000, cookies } = options;
   const startTime = Date.now();
 
   try {
@@ -165,6 +633,7 @@ export async function fetchUrlWithFlareSolverr(
       cmd: 'request.get',
       url,
       maxTimeout: timeout,
+      ...(cookies && cookies.length > 0 ? { cookies } : {}),
     };
 
     const response = await fetch(flaresolverrUrl, {
@@ -173,6 +642,7 @@ export async function fetchUrlWithFlareSolverr(
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(request),
+      dispatcher: getHttpAgent(),
     });
 
     if (!response.ok) {
@@ -189,6 +659,8 @@ export async function fetchUrlWithFlareSolverr(
         finalUrl: url,
         wasRedirected: false,
         responseTimeMs,
+        headers: {},
+        redirectChain: [],
         error: `FlareSolverr error: ${data.message}`,
       };
     }
@@ -202,6 +674,9 @@ export async function fetchUrlWithFlareSolverr(
       finalUrl: solution.url,
       wasRedirected,
       responseTimeMs,
+      // FlareSolverr does not expose response headers or the hops it followed
+      headers: {},
+      redirectChain: [],
     };
   } catch (error) {
     const responseTimeMs = Date.now() - startTime;
@@ -211,6 +686,8 @@ export async function fetchUrlWithFlareSolverr(
       finalUrl: url,
       wasRedirected: false,
       responseTimeMs,
+      headers: {},
+      redirectChain: [],
       error: (error as Error).message || 'FlareSolverr request failed',
     };
   }
@@ -0,0 +1,15 @@
+import { parentPort } from 'node:worker_threads';
+import { analyzePage, type AnalysisResponse, type PageAnalysisOptions } from './page-analysis.js';
+
+/**
+ * Worker thread entry point for PageAnalyzer: analyzes one page per message
+ */
+parentPort?.on('message', ({ html, options }: { html: string; options: PageAnalysisOptions }) => {
+  let response: AnalysisResponse;
+  try {
+    response = { page: analyzePage(html, options) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,164 @@
+import { Worker } from 'node:worker_threads';
+import type { HtmlParserMode, ParsedPage } from '../types/index.js';
+import { fingerprintText } from './fingerprint.js';
+import { parseHtml } from './html-parser.js';
+import { parseHtmlStream } from './html-stream-parser.js';
+
+/**
+ * Pages at least this large are streamed in 'auto' mode
+ */
+export const STREAM_PARSER_MIN_SIZE = 256 * 1024;
+
+/**
+ * What to extract from a page
+ */
+export interface PageAnalysisOptions {
+  /** Base URL for resolving links, canonical and hreflang */
+  baseUrl: string;
+  /** CSS selectors to match (requires the DOM parser) */
+  selectors?: string[];
+  /** Compute a body text fingerprint */
+  fingerprint?: boolean;
+  /** Parser to use (default: 'auto') */
+  parser?: HtmlParserMode;
+}
+
+/**
+ * Parses a page once and returns everything the checks need: title, links,
+ * body text, metadata, matched selectors and optionally a fingerprint
+ */
+export function analyzePage(html: string, options: PageAnalysisOptions): ParsedPage {
+  const selectors = options.selectors ?? [];
+  const page = useStreamParser(html, options.parser ?? 'auto', selectors.length > 0)
+    ? parseHtmlStream(html, options.baseUrl)
+    : parseHtml(html, options.baseUrl, selectors);
+
+  if (options.fingerprint) {
+    page.content = fingerprintText(page.bodyText);
+  }
+  return page;
+}
+
+/**
+ * Picks the streaming parser for large pages, unless selectors must be matched
+ */
+function useStreamParser(html: string, parser: HtmlParserMode, needsSelectors: boolean): boolean {
+  if (needsSelectors || parser === 'dom') {
+    return false;
+  }
+  return parser === 'stream' || html.length >= STREAM_PARSER_MIN_SIZE;
+}
+
+/**
+ * A page waiting for a worker
+ */
+interface AnalysisTask {
+  html: string;
+  options: PageAnalysisOptions;
+  resolve: (page: ParsedPage) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A worker thread and the task it is running
+ */
+interface PoolWorker {
+  worker: Worker;
+  task: AnalysisTask | null;
+}
+
+/**
+ * Message a worker sends back for each page
+ */
+export type AnalysisResponse = { page: ParsedPage } | { error: string };
+
+/**
+ * Analyzes pages in a pool of worker threads, so parsing does not block
+ * the event loop. With no workers, pages are analyzed in the main thread.
+ */
+export class PageAnalyzer {
+  private size: number;
+  private workers: PoolWorker[];
+  private queue: AnalysisTask[];
+
+  constructor(options: { workers: number }) {
+    this.size = options.workers;
+    this.workers = [];
+    this.queue = [];
+  }
+
+  /**
+   * Analyzes a page in a worker (or in the main thread without workers)
+   */
+  analyze(html: string, options: PageAnalysisOptions): Promise<ParsedPage> {
+    if (this.size <= 0) {
+      return Promise.resolve(analyzePage(html, options));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ html, options, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops the worker threads; pages still queued are rejected
+   */
+  async close(): Promise<void> {
+    for (const task of this.queue.splice(0)) {
+      task.reject(new Error('Page analyzer closed'));
+    }
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(w => w.worker.terminate()));
+  }
+
+  /**
+   * Hands queued pages to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let idle = this.workers.find(w => !w.task);
+      if (!idle && this.workers.length < this.size) {
+        idle = this.startWorker();
+      }
+      if (!idle) {
+        return;
+      }
+
+      const task = this.queue.shift()!;
+      idle.task = task;
+      idle.worker.postMessage({ html: task.html, options: task.options });
+    }
+  }
+
+  /**
+   * Starts a worker thread; one that crashes fails its page and is replaced
+   */
+  private startWorker(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(new URL('./page-analysis-worker.js', import.meta.url)),
+      task: null,
+    };
+
+    poolWorker.worker.on('message', (response: AnalysisResponse) => {
+      const task = poolWorker.task;
+      poolWorker.task = null;
+      if ('page' in response) {
+        task?.resolve(response.page);
+      } else {
+        task?.reject(new Error(response.error));
+      }
+      this.dispatch();
+    });
+
+    poolWorker.worker.on('error', error => {
+      poolWorker.task?.reject(error);
+      poolWorker.task = null;
+      this.workers = this.workers.filter(w => w !== poolWorker);
+      this.dispatch();
+    });
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+}
@@ -0,0 +1,306 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Command, Option } from 'commander';
+import fse from 'fs-extra';
+import type { ProjectCommand, ProjectCommandSettings, ProjectConfig } from '../types/index.js';
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const PROJECT_CONFIG_FILES = [
+  'url-migration.config.json',
+  'url-migration.config.js',
+  'url-migration.config.mjs',
+  'url-migration.config.ts',
+];
+
+/**
+ * Options that only make sense on the command line
+ */
+const CLI_ONLY_OPTIONS = ['resume', 'help'];
+
+/**
+ * Options holding file paths; relative paths are relative to the config file
+ */
+const PATH_OPTIONS = ['input', 'output', 'map', 'soft404Rules', 'suggest', 'onlyFailed', 'cookieJar'];
+
+/**
+ * Option that a profile's url sets for each command
+ */
+const PROFILE_URL_OPTIONS: Record<ProjectCommand, string> = {
+  crawl: 'url',
+  validate: 'destination',
+};
+
+/**
+ * Top-level keys of a config file
+ */
+const CONFIG_KEYS = ['$schema', 'source', 'destination', 'crawl', 'validate', 'profiles'];
+
+/**
+ * Keys of a profile
+ */
+const PROFILE_KEYS = ['url', 'crawl', 'validate'];
+
+/**
+ * Finds the project config file in a directory, or null if there is none
+ */
+export async function findProjectConfig(dir: string): Promise<string | null> {
+  for (const name of PROJECT_CONFIG_FILES) {
+    const candidate = path.join(dir, name);
+    if (await fse.pathExists(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads a config file and checks it against the options of each command.
+ * JSON files are parsed; .js/.mjs/.ts files are imported and their default
+ * export is used (.ts files are transpiled first). Throws listing every
+ * problem found.
+ */
+export async function loadProjectConfig(
+  configPath: string,
+  commands: Record<ProjectCommand, Command>
+): Promise<ProjectConfig> {
+  const file = path.basename(configPath);
+  let data: unknown;
+
+  if (path.extname(configPath).toLowerCase() === '.json') {
+    try {
+      data = JSON.parse(await fse.readFile(configPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`${file}: ${(error as Error).message}`);
+    }
+  } else {
+    try {
+      const module = path.extname(configPath).toLowerCase() === '.ts'
+        ? await importTypeScript(configPath)
+        : await import(pathToFileURL(path.resolve(configPath)).href);
+      data = module.default ?? module;
+    } catch (error) {
+      throw new Error(`${file}: ${(error as Error).message}`);
+    }
+  }
+
+  const problems = checkProjectConfig(data, commands);
+  if (problems.length > 0) {
+    throw new Error(`Invalid project config ${file}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+  return data as ProjectConfig;
+}
+
+/**
+ * Transpiles a TypeScript config file to a temporary ES module next to it
+ * (so relative imports still resolve), imports it and removes the copy.
+ * Types are stripped, not checked.
+ */
+async function importTypeScript(configPath: string): Promise<Record<string, unknown>> {
+  const { default: ts } = await import('typescript');
+  const source = await fse.readFile(configPath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    fileName: configPath,
+  });
+
+  const compiledPath = path.join(path.dirname(path.resolve(configPath)), `.${path.basename(configPath, '.ts')}.${process.pid}.mjs`);
+  await fse.writeFile(compiledPath, outputText);
+  try {
+    return await import(pathToFileURL(compiledPath).href);
+  } finally {
+    await fse.remove(compiledPath);
+  }
+}
+
+/**
+ * Settings for one command: the top-level section, then the profile's url,
+ * then the profile's section. Later entries win.
+ */
+export function resolveProjectSettings(
+  config: ProjectConfig,
+  configPath: string,
+  command: ProjectCommand,
+  profileName: string | undefined
+): ProjectCommandSettings {
+  const profiles = config.profiles ?? {};
+  if (profileName !== undefined && !profiles[profileName]) {
+    const defined = Object.keys(profiles);
+    throw new Error(
+      `Unknown profile: ${profileName} (${defined.length > 0 ? `defined: ${defined.join(', ')}` : 'no profiles defined'})`
+    );
+  }
+  const profile = profileName !== undefined ? profiles[profileName] : undefined;
+
+  const settings: ProjectCommandSettings = {
+    ...config[command],
+    ...(profile?.url ? { [PROFILE_URL_OPTIONS[command]]: profile.url } : {}),
+    ...profile?.[command],
+  };
+
+  // Keep paths relative to the working directory, so reports stay readable
+  const baseDir = path.dirname(path.resolve(configPath));
+  for (const key of PATH_OPTIONS) {
+    const value = settings[key];
+    if (typeof value === 'string') {
+      settings[key] = path.relative(process.cwd(), path.resolve(baseDir, value)) || '.';
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Sets options that were not given on the command line from config settings
+ */
+export function applyProjectSettings(command: Command, settings: ProjectCommandSettings): string[] {
+  const applied: string[] = [];
+  for (const option of command.options as Option[]) {
+    const key = option.attributeName();
+    const value = settings[key];
+    const source = command.getOptionValueSource(key);
+    if (value === undefined || (source !== undefined && source !== 'default')) {
+      continue;
+    }
+
+    // Values are passed as the CLI would pass them, so the same parsing applies
+    const cliValue = isFlag(option)
+      ? value
+      : option.variadic
+      ? (Array.isArray(value) ? value : [value]).map(String)
+      : String(value);
+    command.setOptionValueWithSource(key, cliValue, 'config');
+    applied.push(key);
+  }
+  return applied;
+}
+
+/**
+ * Lists everything wrong with config file contents
+ */
+function checkProjectConfig(data: unknown, commands: Record<ProjectCommand, Command>): string[] {
+  if (!isObject(data)) {
+    return ['expected an object'];
+  }
+
+  const problems: string[] = [];
+  checkKeys(data, CONFIG_KEYS, '', problems);
+
+  const profiles = data.profiles;
+  if (profiles !== undefined) {
+    if (!isObject(profiles)) {
+      problems.push('profiles must be an object of named profiles');
+    } else {
+      for (const [name, profile] of Object.entries(profiles)) {
+        const at = `profiles.${name}`;
+        if (!isObject(profile)) {
+          problems.push(`${at} must be an object`);
+          continue;
+        }
+        checkKeys(profile, PROFILE_KEYS, `${at}.`, problems);
+        if (profile.url !== undefined && !isHttpUrl(profile.url)) {
+          problems.push(`${at}.url must be an http or https URL`);
+        }
+        for (const command of Object.keys(PROFILE_URL_OPTIONS) as ProjectCommand[]) {
+          checkSettings(profile[command], commands[command], `${at}.${command}`, problems);
+        }
+      }
+    }
+  }
+
+  for (const role of ['source', 'destination']) {
+    const name = data[role];
+    if (name === undefined) continue;
+    if (typeof name !== 'string') {
+      problems.push(`${role} must be a profile name`);
+    } else if (!isObject(profiles) || !(name in profiles)) {
+      problems.push(`${role} names an unknown profile: ${name}`);
+    }
+  }
+
+  for (const command of Object.keys(PROFILE_URL_OPTIONS) as ProjectCommand[]) {
+    checkSettings(data[command], commands[command], command, problems);
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a command section against the command's options
+ */
+function checkSettings(settings: unknown, command: Command, at: string, problems: string[]): void {
+  if (settings === undefined) return;
+  if (!isObject(settings)) {
+    problems.push(`${at} must be an object of ${command.name()} options`);
+    return;
+  }
+
+  const options = new Map(
+    (command.options as Option[])
+      .filter(o => !CLI_ONLY_OPTIONS.includes(o.attributeName()))
+      .map(o => [o.attributeName(), o])
+  );
+
+  for (const [key, value] of Object.entries(settings)) {
+    const option = options.get(key);
+    if (!option) {
+      const similar = [...options.keys()].find(k => normalizeKey(k) === normalizeKey(key));
+      problems.push(`${at}.${key} is not a ${command.name()} option${similar ? ` (did you mean ${similar}?)` : ''}`);
+    } else if (isFlag(option)) {
+      if (typeof value !== 'boolean') {
+        problems.push(`${at}.${key} must be true or false`);
+      }
+    } else if (option.variadic) {
+      if (typeof value !== 'string' && !(Array.isArray(value) && value.every(v => typeof v === 'string'))) {
+        problems.push(`${at}.${key} must be a string or an array of strings`);
+      }
+    } else if (typeof value !== 'string' && typeof value !== 'number') {
+      problems.push(`${at}.${key} must be a string or a number`);
+    }
+  }
+}
+
+/**
+ * Reports keys that are not in the allowed list
+ */
+function checkKeys(object: Record<string, unknown>, allowed: string[], prefix: string, problems: string[]): void {
+  for (const key of Object.keys(object)) {
+    if (!allowed.includes(key)) {
+      problems.push(`${prefix}${key} is not a known setting (expected ${allowed.filter(k => k !== '$schema').join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Compares option names ignoring case, dashes and underscores (max-depth, maxDepth)
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+/**
+ * Whether an option takes no value (`--sitemap`, `--no-calibrate`)
+ */
+function isFlag(option: Option): boolean {
+  return option.isBoolean() || option.negate;
+}
+
+/**
+ * Checks for a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks for an http or https URL string
+ */
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return new URL(value).protocol.startsWith('http');
+  } catch {
+    return false;
+  }
+}
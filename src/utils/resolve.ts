@@ -0,0 +1,49 @@
+import { isIP } from 'node:net';
+import { buildConnector } from 'undici';
+import type { ResolveOverride } from '../types/index.js';
+
+/**
+ * Parses curl-style `host:port:address` overrides. IPv6 addresses may be
+ * written in brackets (`example.com:443:[2001:db8::1]`).
+ */
+export function parseResolveOverrides(values: string[]): ResolveOverride[] {
+  return values.map(value => {
+    const match = /^([^:\s]+):(\d+):(.+)$/.exec(value.trim());
+    const address = match?.[3].replace(/^\[(.*)\]$/, '$1') ?? '';
+    const port = match ? parseInt(match[2], 10) : NaN;
+    if (!match || !isIP(address) || port < 1 || port > 65535) {
+      throw new Error(`Invalid resolve value: ${value} (expected host:port:address, e.g. example.com:443:203.0.113.10)`);
+    }
+    return { host: match[1].toLowerCase(), port, address };
+  });
+}
+
+/**
+ * Builds the connector of the shared HTTP agent. Connections for an
+ * overridden host and port go to the given address; only the TCP connection
+ * changes, the URL, Host header and TLS server name (SNI and certificate
+ * check) still use the hostname.
+ */
+export function createResolveConnector(
+  overrides: ResolveOverride[],
+  options: buildConnector.BuildOptions
+): buildConnector.connector {
+  const baseConnect = buildConnector(options);
+  if (overrides.length === 0) {
+    return baseConnect;
+  }
+  return (connectOptions, callback) => {
+    const port = Number(connectOptions.port) || (connectOptions.protocol === 'https:' ? 443 : 80);
+    const override = overrides.find(o => o.host === connectOptions.hostname.toLowerCase() && o.port === port);
+    return baseConnect(override ? { ...connectOptions, hostname: override.address } : connectOptions, callback);
+  };
+}
+
+/**
+ * Describes overrides for logs, curl style
+ */
+export function describeResolveOverrides(overrides: ResolveOverride[]): string {
+  return overrides
+    .map(o => `${o.host}:${o.port} → ${isIP(o.address) === 6 ? `[${o.address}]` : o.address}`)
+    .join(', ');
+}
@@ -0,0 +1,173 @@
+import type { RequestAuth } from './auth.js';
+import { fetchUrl, isSuccessStatus } from './http.js';
+import { joinUrl } from './html-parser.js';
+
+/**
+ * Product token we match against robots.txt User-agent lines
+ */
+export const ROBOTS_USER_AGENT = 'URLMigrationChecker';
+
+/**
+ * A single Allow/Disallow rule
+ */
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+/**
+ * Rules from robots.txt that apply to one user agent
+ */
+export interface RobotsPolicy {
+  /** Whether robots.txt was found and parsed */
+  found: boolean;
+  /** User-agent group the rules were taken from ('*' or a specific agent) */
+  matchedAgent: string | null;
+  /** Crawl-delay in milliseconds, if specified for the matched group */
+  crawlDelayMs: number | null;
+  /** Sitemap: directives (these apply to every agent) */
+  sitemaps: string[];
+  /** Checks whether a URL (or a path with optional query) may be fetched */
+  isAllowed(url: string): boolean;
+}
+
+/**
+ * Fetches and parses robots.txt for a site. A missing or unreachable
+ * robots.txt allows everything.
+ */
+export async function fetchRobotsPolicy(
+  siteUrl: string,
+  options: { timeout?: number; userAgent?: string; auth?: RequestAuth | null } = {}
+): Promise<RobotsPolicy> {
+  const result = await fetchUrl(joinUrl(siteUrl, '/robots.txt'), {
+    timeout: options.timeout,
+    retries: 1,
+    auth: options.auth,
+  });
+
+  if (result.error || !isSuccessStatus(result.statusCode)) {
+    return parseRobotsTxt('', options.userAgent, false);
+  }
+
+  return parseRobotsTxt(result.body, options.userAgent);
+}
+
+/**
+ * Parses robots.txt and returns the policy for the given user agent.
+ * The most specific matching User-agent group wins, falling back to '*'.
+ * Within a group the longest matching rule wins, with Allow winning ties.
+ */
+export function parseRobotsTxt(
+  robotsTxt: string,
+  userAgent: string = ROBOTS_USER_AGENT,
+  found: boolean = true
+): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }> = [];
+  const sitemaps: string[] = [];
+
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!match) continue;
+
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) {
+        current.rules.push({ allow: field === 'allow', pattern: value, regex: patternToRegex(value) });
+      }
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds) && seconds >= 0) {
+        current.crawlDelay = seconds;
+      }
+    }
+  }
+
+  // Pick the group with the longest agent token contained in our user agent
+  const agentLower = userAgent.toLowerCase();
+  let selected: (typeof groups)[number] | null = null;
+  let selectedAgent: string | null = null;
+  for (const group of groups) {
+    for (const agent of group.agents) {
+      if (agent !== '*' && agentLower.includes(agent)) {
+        if (!selectedAgent || selectedAgent === '*' || agent.length > selectedAgent.length) {
+          selected = group;
+          selectedAgent = agent;
+        }
+      } else if (agent === '*' && !selected) {
+        selected = group;
+        selectedAgent = '*';
+      }
+    }
+  }
+
+  const rules = selected?.rules ?? [];
+
+  return {
+    found,
+    matchedAgent: selectedAgent,
+    crawlDelayMs: selected?.crawlDelay != null ? Math.round(selected.crawlDelay * 1000) : null,
+    sitemaps,
+    isAllowed(url: string): boolean {
+      let path: string;
+      try {
+        const parsed = new URL(url);
+        path = parsed.pathname + parsed.search;
+      } catch {
+        path = url;
+      }
+
+      let best: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule;
+        }
+      }
+
+      return best ? best.allow : true;
+    },
+  };
+}
+
+/**
+ * Converts a robots.txt path pattern (with * and $ wildcards) to a RegExp
+ */
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
@@ -0,0 +1,258 @@
+import { formatDuration } from './concurrency.js';
+import { sleep } from './http.js';
+
+/**
+ * Statuses that mean the host wants fewer requests
+ */
+const THROTTLE_STATUSES = [429, 503];
+
+/**
+ * First backoff after a throttled response without Retry-After
+ */
+const BASE_BACKOFF_MS = 1000;
+
+/**
+ * Longest backoff without Retry-After
+ */
+const MAX_BACKOFF_MS = 60000;
+
+/**
+ * Longest Retry-After honored; longer values are shortened to this
+ */
+const MAX_RETRY_AFTER_MS = 300000;
+
+/**
+ * Recent outcomes per host used to detect an error spike
+ */
+const ERROR_WINDOW = 20;
+
+/**
+ * Outcomes needed before an error spike can be detected
+ */
+const MIN_ERROR_SAMPLES = 10;
+
+/**
+ * Share of recent errors that halves the host's concurrency
+ */
+const ERROR_SPIKE_RATE = 0.5;
+
+/**
+ * Successes in a row that raise the host's concurrency by one again
+ */
+const RECOVERY_SUCCESSES = 20;
+
+/**
+ * Times a throttled request is retried before its response is kept
+ */
+export const MAX_THROTTLE_RETRIES = 3;
+
+/**
+ * Scheduling state of one host
+ */
+interface HostState {
+  /** Current concurrency limit (lowered on throttling, raised on success) */
+  limit: number;
+  /** Requests in flight */
+  active: number;
+  /** Earliest start of the next request under the rate cap */
+  nextStartAt: number;
+  /** No requests start before this time (backoff) */
+  pausedUntil: number;
+  /** Throttled responses since the last success */
+  consecutiveThrottles: number;
+  /** Successes since the last error or limit change */
+  successStreak: number;
+  /** Recent outcomes, true for errors */
+  recent: boolean[];
+  /** Requests waiting for a free slot */
+  waiters: Array<() => void>;
+}
+
+/**
+ * Per-host request scheduler: caps concurrency and requests per second,
+ * backs off on 429/503 (honoring Retry-After), halves concurrency when
+ * errors spike and raises it again once requests succeed
+ */
+export class HostScheduler {
+  private concurrency: number;
+  private minIntervalMs: number;
+  private logger: (message: string) => void;
+  private hosts: Map<string, HostState>;
+  private throttled: number;
+  private reductions: number;
+
+  constructor(options: {
+    concurrency: number;
+    maxRequestsPerSecond?: number;
+    logger?: (message: string) => void;
+  }) {
+    this.concurrency = options.concurrency;
+    this.minIntervalMs = options.maxRequestsPerSecond ? 1000 / options.maxRequestsPerSecond : 0;
+    this.logger = options.logger || console.log;
+    this.hosts = new Map();
+    this.throttled = 0;
+    this.reductions = 0;
+  }
+
+  /**
+   * Waits until a request to the URL's host may start. Call the returned
+   * function when the request is done.
+   */
+  async acquire(url: string): Promise<() => void> {
+    const state = this.getState(url);
+
+    while (true) {
+      const now = Date.now();
+      const wait = Math.max(state.pausedUntil, state.nextStartAt) - now;
+      if (wait > 0) {
+        await sleep(wait);
+      } else if (state.active >= state.limit) {
+        await new Promise<void>(resolve => state.waiters.push(resolve));
+      } else {
+        state.active++;
+        state.nextStartAt = now + this.minIntervalMs;
+        break;
+      }
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      state.active--;
+      state.waiters.shift()?.();
+    };
+  }
+
+  /**
+   * Records a response. Returns true if the host throttled the request, in
+   * which case the host is paused and the request should be retried.
+   */
+  recordResponse(url: string, statusCode: number, retryAfter: string | null): boolean {
+    const state = this.getState(url);
+    if (!THROTTLE_STATUSES.includes(statusCode)) {
+      this.recordOutcome(url, state, statusCode >= 500);
+      return false;
+    }
+
+    this.throttled++;
+    state.successStreak = 0;
+
+    // Requests already in flight when the host started throttling belong to
+    // the same episode: they extend the pause but do not escalate it
+    const retryAfterMs = parseRetryAfter(retryAfter);
+    if (state.pausedUntil > Date.now()) {
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + (retryAfterMs ?? 0));
+      return true;
+    }
+
+    state.consecutiveThrottles++;
+    const delay = retryAfterMs ?? backoffDelay(state.consecutiveThrottles);
+    state.pausedUntil = Date.now() + delay;
+    this.reduce(url, state, `${statusCode}, ${retryAfterMs !== null ? 'Retry-After' : 'backing off'} ${formatDuration(delay)}`);
+    return true;
+  }
+
+  /**
+   * Records a request that failed without a response
+   */
+  recordFailure(url: string): void {
+    this.recordOutcome(url, this.getState(url), true);
+  }
+
+  /**
+   * Gets current stats
+   */
+  getStats() {
+    return {
+      throttled: this.throttled,
+      concurrencyReductions: this.reductions,
+    };
+  }
+
+  /**
+   * Tracks recent outcomes: an error spike halves the limit, a run of
+   * successes raises it by one
+   */
+  private recordOutcome(url: string, state: HostState, isError: boolean): void {
+    state.recent.push(isError);
+    if (state.recent.length > ERROR_WINDOW) {
+      state.recent.shift();
+    }
+
+    if (isError) {
+      state.successStreak = 0;
+      const errors = state.recent.filter(Boolean).length;
+      if (state.recent.length >= MIN_ERROR_SAMPLES && errors / state.recent.length >= ERROR_SPIKE_RATE) {
+        this.reduce(url, state, `${errors} of the last ${state.recent.length} requests failed`);
+      }
+      return;
+    }
+
+    state.consecutiveThrottles = 0;
+    state.successStreak++;
+    if (state.successStreak >= RECOVERY_SUCCESSES && state.limit < this.concurrency) {
+      state.limit++;
+      state.successStreak = 0;
+      state.waiters.shift()?.();
+    }
+  }
+
+  /**
+   * Halves the host's concurrency limit (at least one request stays allowed)
+   */
+  private reduce(url: string, state: HostState, reason: string): void {
+    const previous = state.limit;
+    state.limit = Math.max(1, Math.floor(state.limit / 2));
+    state.recent = [];
+    state.successStreak = 0;
+    if (state.limit < previous) {
+      this.reductions++;
+    }
+    this.logger(
+      `Throttling ${new URL(url).host}: ${reason}` +
+      (state.limit < previous ? ` (concurrency ${previous} → ${state.limit})` : '')
+    );
+  }
+
+  /**
+   * State of the URL's host, created on first use
+   */
+  private getState(url: string): HostState {
+    const host = new URL(url).host;
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        limit: this.concurrency,
+        active: 0,
+        nextStartAt: 0,
+        pausedUntil: 0,
+        consecutiveThrottles: 0,
+        successStreak: 0,
+        recent: [],
+        waiters: [],
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
+
+/**
+ * Parses Retry-After (seconds or an HTTP date) into milliseconds, or null
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const ms = /^\d+$/.test(value.trim()) ? parseInt(value, 10) * 1000 : Date.parse(value) - Date.now();
+  return isNaN(ms) ? null : Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half is random
+ */
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
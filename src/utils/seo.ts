@@ -0,0 +1,149 @@
+import type { SeoMetadata, ValidationIssue } from '../types/index.js';
+import { titlesMatch } from './soft404.js';
+import { sameUrl } from './html-parser.js';
+
+/**
+ * Open Graph properties compared between source and destination
+ */
+const COMPARED_OPEN_GRAPH_PROPERTIES = ['og:title', 'og:description', 'og:image', 'og:type'];
+
+/**
+ * An SEO parity issue together with how serious it is
+ */
+export interface SeoIssue {
+  issue: ValidationIssue;
+  severity: 'warning' | 'error';
+}
+
+/**
+ * Compares source and destination SEO metadata field by field.
+ * Dropped or changed fields are warnings; a destination that newly turns on
+ * noindex or canonicalizes to another URL is an error.
+ */
+export function compareSeoMetadata(
+  source: SeoMetadata,
+  destination: SeoMetadata,
+  sourceUrl: string,
+  destinationUrl: string
+): SeoIssue[] {
+  const issues: SeoIssue[] = [];
+
+  // noindex
+  const sourceNoindex = isNoindex(source.metaRobots) || isNoindex(source.xRobotsTag);
+  const destNoindex = isNoindex(destination.metaRobots) || isNoindex(destination.xRobotsTag);
+  if (destNoindex && !sourceNoindex) {
+    issues.push({
+      severity: 'error',
+      issue: {
+        type: 'noindex',
+        message: 'Destination is noindex but the source was indexable',
+        details: { metaRobots: destination.metaRobots, xRobotsTag: destination.xRobotsTag },
+      },
+    });
+  }
+
+  // Canonical
+  const sourceSelfCanonical = !source.canonical || sameUrl(source.canonical, sourceUrl);
+  if (destination.canonical && !sameUrl(destination.canonical, destinationUrl) && sourceSelfCanonical) {
+    issues.push({
+      severity: 'error',
+      issue: {
+        type: 'canonical_mismatch',
+        message: `Canonical points to another URL: ${destination.canonical}`,
+        details: { sourceCanonical: source.canonical, destinationCanonical: destination.canonical },
+      },
+    });
+  } else if (source.canonical && !destination.canonical) {
+    issues.push({
+      severity: 'warning',
+      issue: {
+        type: 'canonical_mismatch',
+        message: 'Canonical tag missing on destination',
+        details: { sourceCanonical: source.canonical, destinationCanonical: null },
+      },
+    });
+  }
+
+  // Meta description
+  if (source.metaDescription && !titlesMatch(source.metaDescription, destination.metaDescription)) {
+    issues.push({
+      severity: 'warning',
+      issue: {
+        type: 'meta_description_mismatch',
+        message: destination.metaDescription
+          ? 'Meta description changed'
+          : 'Meta description missing on destination',
+        details: {
+          sourceMetaDescription: source.metaDescription,
+          destinationMetaDescription: destination.metaDescription,
+        },
+      },
+    });
+  }
+
+  // H1
+  const sourceH1 = source.h1s[0] ?? null;
+  const destH1 = destination.h1s[0] ?? null;
+  if (sourceH1 && !titlesMatch(sourceH1, destH1)) {
+    issues.push({
+      severity: 'warning',
+      issue: {
+        type: 'h1_mismatch',
+        message: destH1 ? `H1 mismatch: "${sourceH1}" vs "${destH1}"` : 'H1 missing on destination',
+        details: { sourceH1s: source.h1s, destinationH1s: destination.h1s },
+      },
+    });
+  }
+
+  // Open Graph
+  const changedOg = COMPARED_OPEN_GRAPH_PROPERTIES.filter(property => {
+    const sourceValue = source.openGraph[property];
+    const destValue = destination.openGraph[property];
+    if (!sourceValue) return false;
+    if (!destValue) return true;
+    // Image URLs move with the site, so only their presence is compared
+    return property !== 'og:image' && !titlesMatch(sourceValue, destValue);
+  });
+  if (changedOg.length > 0) {
+    issues.push({
+      severity: 'warning',
+      issue: {
+        type: 'open_graph_mismatch',
+        message: `Open Graph differs: ${changedOg.join(', ')}`,
+        details: Object.fromEntries(changedOg.map(property => [
+          property,
+          { source: source.openGraph[property], destination: destination.openGraph[property] ?? null },
+        ])),
+      },
+    });
+  }
+
+  // hreflang (URLs change with the domain, so compare the language sets)
+  const sourceLangs = new Set(source.hreflang.map(link => link.lang));
+  const destLangs = new Set(destination.hreflang.map(link => link.lang));
+  const missingLangs = [...sourceLangs].filter(lang => !destLangs.has(lang));
+  const addedLangs = [...destLangs].filter(lang => !sourceLangs.has(lang));
+  if (missingLangs.length > 0 || addedLangs.length > 0) {
+    issues.push({
+      severity: 'warning',
+      issue: {
+        type: 'hreflang_mismatch',
+        message: [
+          missingLangs.length > 0 ? `hreflang missing: ${missingLangs.join(', ')}` : '',
+          addedLangs.length > 0 ? `hreflang added: ${addedLangs.join(', ')}` : '',
+        ].filter(Boolean).join('; '),
+        details: { missing: missingLangs, added: addedLangs },
+      },
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks whether a robots directive value contains noindex (or none)
+ */
+export function isNoindex(directives: string | null): boolean {
+  if (!directives) return false;
+  return /(^|[\s,:])(noindex|none)(\s*,|\s*$|\s)/i.test(directives);
+}
@@ -0,0 +1,150 @@
+import { gunzipSync } from 'node:zlib';
+import * as cheerio from 'cheerio';
+import type { RequestAuth } from './auth.js';
+import { fetchBuffer, isSuccessStatus } from './http.js';
+import { joinUrl } from './html-parser.js';
+import { parseRobotsTxt } from './robots.js';
+
+/**
+ * Maximum number of sitemap files to fetch (guards against runaway indexes)
+ */
+const MAX_SITEMAP_FILES = 500;
+
+/**
+ * Largest uncompressed sitemap, per the sitemap protocol
+ */
+const MAX_SITEMAP_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Options for sitemap discovery
+ */
+export interface SitemapDiscoveryOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Logger for progress messages */
+  log?: (...args: unknown[]) => void;
+  /** Credentials and cookies for the site */
+  auth?: RequestAuth | null;
+  /** Largest file downloaded in bytes (default: DEFAULT_MAX_BODY_SIZE) */
+  maxBodySize?: number;
+}
+
+/**
+ * A page URL found in a sitemap
+ */
+export interface SitemapEntry {
+  /** Page URL from the <loc> element */
+  loc: string;
+  /** Sitemap file that listed it */
+  sitemap: string;
+}
+
+/**
+ * Result of sitemap discovery
+ */
+export interface SitemapDiscoveryResult {
+  /** Page URLs listed in the sitemaps (<loc> entries of <urlset>) */
+  urls: SitemapEntry[];
+  /** Sitemap files that were fetched and parsed successfully */
+  sitemaps: string[];
+}
+
+/**
+ * Discovers page URLs from robots.txt Sitemap: lines and /sitemap.xml,
+ * recursing into sitemap indexes (plain or gzipped)
+ */
+export async function discoverSitemapUrls(
+  siteUrl: string,
+  options: SitemapDiscoveryOptions = {}
+): Promise<SitemapDiscoveryResult> {
+  const { timeout = 10000, log = () => {}, auth = null, maxBodySize } = options;
+
+  // Seed from robots.txt, then fall back to the conventional location
+  const pending: string[] = [];
+  const robots = await fetchBuffer(joinUrl(siteUrl, '/robots.txt'), { timeout, auth, maxBodySize });
+  if (!robots.error && isSuccessStatus(robots.statusCode)) {
+    pending.push(...parseRobotsTxt(robots.body.toString('utf8')).sitemaps);
+  }
+  pending.push(joinUrl(siteUrl, '/sitemap.xml'));
+
+  const seen = new Set<string>();
+  const urls = new Map<string, SitemapEntry>();
+  const sitemaps: string[] = [];
+
+  while (pending.length > 0 && seen.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = pending.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    const result = await fetchBuffer(sitemapUrl, { timeout, auth, maxBodySize });
+    if (result.error || !isSuccessStatus(result.statusCode)) {
+      log(`Sitemap unavailable: ${sitemapUrl} (${result.error || result.statusCode})`);
+      continue;
+    }
+
+    let xml: string;
+    try {
+      xml = decodeSitemapBody(result.body);
+    } catch (error) {
+      log(`Could not decompress sitemap: ${sitemapUrl} (${(error as Error).message})`);
+      continue;
+    }
+
+    const parsed = parseSitemap(xml);
+    if (parsed.type === 'unknown') {
+      log(`Not a sitemap: ${sitemapUrl}`);
+      continue;
+    }
+
+    sitemaps.push(sitemapUrl);
+    if (parsed.type === 'index') {
+      pending.push(...parsed.locs);
+    } else {
+      for (const loc of parsed.locs) {
+        if (!urls.has(loc)) {
+          urls.set(loc, { loc, sitemap: sitemapUrl });
+        }
+      }
+    }
+    log(`Sitemap ${sitemapUrl}: ${parsed.locs.length} ${parsed.type === 'index' ? 'sitemaps' : 'URLs'}`);
+  }
+
+  return { urls: [...urls.values()], sitemaps };
+}
+
+/**
+ * Parses a sitemap or sitemap index and returns its <loc> entries
+ */
+export function parseSitemap(xml: string): { type: 'urlset' | 'index' | 'unknown'; locs: string[] } {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const isIndex = $('sitemapindex').length > 0;
+  const isUrlset = $('urlset').length > 0;
+  if (!isIndex && !isUrlset) {
+    return { type: 'unknown', locs: [] };
+  }
+
+  const selector = isIndex ? 'sitemapindex > sitemap > loc' : 'urlset > url > loc';
+  const locs: string[] = [];
+  $(selector).each((_, element) => {
+    const loc = $(element).text().trim();
+    if (loc) {
+      locs.push(loc);
+    }
+  });
+
+  return { type: isIndex ? 'index' : 'urlset', locs };
+}
+
+/**
+ * Decodes a sitemap response body, gunzipping it if needed.
+ * Servers often send .xml.gz with Content-Encoding: gzip, in which case
+ * the body arrives already decompressed, so sniff the gzip magic bytes.
+ * Output past MAX_SITEMAP_SIZE throws rather than filling memory.
+ */
+function decodeSitemapBody(body: Buffer): string {
+  if (body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b) {
+    return gunzipSync(body, { maxOutputLength: MAX_SITEMAP_SIZE }).toString('utf8');
+  }
+  return body.toString('utf8');
+}
@@ -0,0 +1,253 @@
+import path from 'node:path';
+import * as cheerio from 'cheerio';
+import fse from 'fs-extra';
+import type { Soft404RulesFile } from '../types/index.js';
+
+/**
+ * A compiled title or body rule
+ */
+export interface Soft404Pattern {
+  /** Rule name shown in reasons */
+  id: string;
+  /** Compiled pattern */
+  regex: RegExp;
+  /** Score added when the pattern matches */
+  weight: number;
+}
+
+/**
+ * Soft 404 rules, ready for checking pages
+ */
+export interface Soft404RuleSet {
+  /** Title rules; the strongest match counts */
+  titlePatterns: Soft404Pattern[];
+  /** Body rules; matches add up to a capped score */
+  bodyPatterns: Soft404Pattern[];
+  /** Error template selectors; the strongest match counts */
+  selectors: Array<{ id: string; selector: string; weight: number }>;
+  /** Destination paths that are never soft 404s */
+  allowPaths: Array<{ source: string; regex: RegExp }>;
+  /** Body text length below which a page is suspicious */
+  minContentLength: number;
+  /** Collapsed text length below which a page is very suspicious */
+  minTextLength: number;
+  /** Score at which a page is flagged */
+  threshold: number;
+}
+
+/**
+ * Weight of built-in title rules
+ */
+const TITLE_WEIGHT = 0.4;
+
+/**
+ * Weight of built-in body rules
+ */
+const BODY_WEIGHT = 0.4;
+
+/**
+ * Built-in pattern packs by language. Rule ids are `<language>:<name>`.
+ */
+const LANGUAGE_PACKS: Record<string, { title: Array<[string, RegExp]>; body: Array<[string, RegExp]> }> = {
+  en: {
+    title: [
+      ['404', /404/i],
+      ['not-found', /not\s*found/i],
+      ['page-not-found', /page\s*not\s*found/i],
+      ['error', /error/i],
+      ['missing', /missing/i],
+      ['oops', /oops/i],
+    ],
+    body: [
+      ['page-not-found', /page\s*not\s*found/i],
+      ['404', /404\s*(error)?/i],
+      ['not-found', /not\s*found/i],
+      ['doesnt-exist', /doesn'?t\s*exist/i],
+      ['does-not-exist', /does\s*not\s*exist/i],
+      ['no-longer-available', /no\s*longer\s*(available|exists?)/i],
+      ['cannot-be-found', /cannot\s*be\s*found/i],
+      ['could-not-be-found', /could\s*not\s*(be\s*)?found/i],
+      ['we-couldnt-find', /we\s*couldn'?t\s*find/i],
+      ['page-is-missing', /page\s*(you('?re)?\s*(looking\s*for\s*)?)?is\s*missing/i],
+      ['page-removed', /this\s*page\s*(has\s*been\s*)?(moved|removed|deleted)/i],
+      ['oops', /oops/i],
+      ['sorry-page', /sorry.*page/i],
+      ['nothing-here', /nothing\s*(here|found)/i],
+    ],
+  },
+  de: {
+    title: [
+      ['404', /404/i],
+      ['nicht-gefunden', /nicht\s*gefunden/i],
+      ['fehler', /fehler/i],
+      ['hoppla', /hoppla/i],
+    ],
+    body: [
+      ['seite-nicht-gefunden', /seite\s*nicht\s*gefunden/i],
+      ['nicht-gefunden', /nicht\s*gefunden/i],
+      ['existiert-nicht', /existiert\s*(leider\s*)?nicht/i],
+      ['nicht-mehr-verfuegbar', /nicht\s*mehr\s*(verfügbar|vorhanden|erreichbar)/i],
+      ['konnte-nicht-gefunden-werden', /konnte\s*nicht\s*gefunden\s*werden/i],
+      ['seite-entfernt', /seite\s*(wurde\s*)?(entfernt|gelöscht|verschoben)/i],
+      ['hoppla', /hoppla/i],
+      ['leider-seite', /leider.*seite/i],
+    ],
+  },
+  fr: {
+    title: [
+      ['404', /404/i],
+      ['introuvable', /introuvable/i],
+      ['non-trouvee', /non\s*trouv[ée]e/i],
+      ['erreur', /erreur/i],
+      ['oups', /oups/i],
+    ],
+    body: [
+      ['page-introuvable', /page\s*(introuvable|non\s*trouv[ée]e)/i],
+      ['introuvable', /introuvable/i],
+      ['nexiste-pas', /n['’]\s*existe\s*(pas|plus)/i],
+      ['plus-disponible', /n['’]\s*est\s*plus\s*disponible/i],
+      ['pas-trouve', /nous\s*n['’]\s*avons\s*pas\s*(pu\s*)?trouv[ée]/i],
+      ['page-supprimee', /page\s*(a\s*été\s*)?(supprimée|déplacée)/i],
+      ['oups', /oups/i],
+      ['desole-page', /désolé.*page/i],
+    ],
+  },
+};
+
+/**
+ * Names of the built-in pattern packs
+ */
+export const SOFT404_LANGUAGES = Object.keys(LANGUAGE_PACKS);
+
+/**
+ * Rules used without a rules file: the English pack and the default limits
+ */
+export const DEFAULT_SOFT404_RULES = compileSoft404Rules({}, 'defaults');
+
+/**
+ * Loads a soft 404 rules file. Throws with the rule's location when the file
+ * is malformed.
+ */
+export async function loadSoft404Rules(rulesPath: string): Promise<Soft404RuleSet> {
+  const text = await fse.readFile(rulesPath, 'utf8');
+  const file = path.basename(rulesPath);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${file}: ${(error as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${file}: expected a JSON object`);
+  }
+  return compileSoft404Rules(data as Soft404RulesFile, file);
+}
+
+/**
+ * Compiles rules file contents on top of the selected language packs
+ */
+export function compileSoft404Rules(rules: Soft404RulesFile, file: string): Soft404RuleSet {
+  const languages = rules.languages ?? ['en'];
+  const unknownLanguages = languages.filter(l => !LANGUAGE_PACKS[l]);
+  if (unknownLanguages.length > 0) {
+    throw new Error(`${file}: unknown language ${unknownLanguages.join(', ')} (available: ${SOFT404_LANGUAGES.join(', ')})`);
+  }
+
+  const set: Soft404RuleSet = {
+    titlePatterns: [],
+    bodyPatterns: [],
+    selectors: [],
+    allowPaths: [],
+    minContentLength: readNumber(rules.minContentLength, 500, `${file}: minContentLength`),
+    minTextLength: readNumber(rules.minTextLength, 100, `${file}: minTextLength`),
+    threshold: readWeight(rules.threshold, 0.5, `${file}: threshold`),
+  };
+
+  for (const language of languages) {
+    const pack = LANGUAGE_PACKS[language];
+    for (const [name, regex] of pack.title) {
+      set.titlePatterns.push({ id: `${language}:title-${name}`, regex, weight: TITLE_WEIGHT });
+    }
+    for (const [name, regex] of pack.body) {
+      set.bodyPatterns.push({ id: `${language}:${name}`, regex, weight: BODY_WEIGHT });
+    }
+  }
+
+  // Disabling a rule of a pack that is not selected is almost certainly a typo
+  const disabled = new Set(rules.disable ?? []);
+  const builtInIds = new Set([...set.titlePatterns, ...set.bodyPatterns].map(p => p.id));
+  const unknownIds = [...disabled].filter(id => !builtInIds.has(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`${file}: disable lists unknown rules: ${unknownIds.join(', ')}`);
+  }
+  set.titlePatterns = set.titlePatterns.filter(p => !disabled.has(p.id));
+  set.bodyPatterns = set.bodyPatterns.filter(p => !disabled.has(p.id));
+
+  (rules.patterns ?? []).forEach((rule, index) => {
+    const location = `${file}#patterns[${index}]`;
+    if (typeof rule?.pattern !== 'string' || (rule.target !== 'title' && rule.target !== 'body')) {
+      throw new Error(`${location}: each pattern needs "pattern" and a "target" of "title" or "body"`);
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.pattern, 'i');
+    } catch (error) {
+      throw new Error(`Invalid pattern at ${location}: ${(error as Error).message}`);
+    }
+    const compiled = { id: rule.id ?? rule.pattern, regex, weight: readWeight(rule.weight, undefined, `${location}: weight`) };
+    (rule.target === 'title' ? set.titlePatterns : set.bodyPatterns).push(compiled);
+  });
+
+  (rules.selectors ?? []).forEach((rule, index) => {
+    const location = `${file}#selectors[${index}]`;
+    if (typeof rule?.selector !== 'string') {
+      throw new Error(`${location}: each selector rule needs "selector"`);
+    }
+    try {
+      cheerio.load('')(rule.selector);
+    } catch (error) {
+      throw new Error(`Invalid selector at ${location}: ${(error as Error).message}`);
+    }
+    set.selectors.push({
+      id: rule.id ?? rule.selector,
+      selector: rule.selector,
+      weight: readWeight(rule.weight, undefined, `${location}: weight`),
+    });
+  });
+
+  (rules.allowPaths ?? []).forEach((source, index) => {
+    try {
+      set.allowPaths.push({ source, regex: new RegExp(source) });
+    } catch (error) {
+      throw new Error(`Invalid pattern at ${file}#allowPaths[${index}]: ${(error as Error).message}`);
+    }
+  });
+
+  return set;
+}
+
+/**
+ * Reads a score between 0 and 1, or the default when omitted
+ */
+function readWeight(value: unknown, fallback: number | undefined, label: string): number {
+  if (value === undefined && fallback !== undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || isNaN(value) || value < 0 || value > 1) {
+    throw new Error(`${label} must be a number from 0 to 1`);
+  }
+  return value;
+}
+
+/**
+ * Reads a non-negative number, or the default when omitted
+ */
+function readNumber(value: unknown, fallback: number, label: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || isNaN(value) || value < 0) {
+    throw new Error(`${label} must be a non-negative number`);
+  }
+  return value;
+}
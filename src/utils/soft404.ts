@@ -1,120 +1,267 @@
-import type { Soft404CheckResult } from '../types/index.js';
+import { randomBytes } from 'node:crypto';
+import type { ParsedPage, Soft404Calibration, Soft404CheckResult, Soft404Probe } from '../types/index.js';
+import type { RequestAuth } from './auth.js';
+import { compareFingerprints, fingerprintText } from './fingerprint.js';
+import { fetchUrl, isSuccessStatus } from './http.js';
+import { analyzePage } from './page-analysis.js';
+import { DEFAULT_SOFT404_RULES, type Soft404RuleSet } from './soft404-rules.js';
 
 /**
- * Patterns that indicate a 404 error page in body content
+ * Most that body rules add together, however many match
  */
-const BODY_ERROR_PATTERNS = [
-  /page\s*not\s*found/i,
-  /404\s*(error)?/i,
-  /not\s*found/i,
-  /doesn'?t\s*exist/i,
-  /does\s*not\s*exist/i,
-  /no\s*longer\s*(available|exists?)/i,
-  /cannot\s*be\s*found/i,
-  /could\s*not\s*(be\s*)?found/i,
-  /we\s*couldn'?t\s*find/i,
-  /page\s*(you('?re)?\s*(looking\s*for\s*)?)?is\s*missing/i,
-  /this\s*page\s*(has\s*been\s*)?(moved|removed|deleted)/i,
-  /oops/i,
-  /sorry.*page/i,
-  /nothing\s*(here|found)/i,
-];
+const BODY_SCORE_CAP = 0.5;
 
 /**
- * Patterns that indicate a 404 error in the page title
+ * Score added for body text shorter than the rules' minContentLength
  */
-const TITLE_ERROR_PATTERNS = [
-  /404/i,
-  /not\s*found/i,
-  /page\s*not\s*found/i,
-  /error/i,
-  /missing/i,
-  /oops/i,
-];
+const SHORT_CONTENT_WEIGHT = 0.2;
 
 /**
- * Minimum content length threshold - pages shorter than this are suspicious
+ * Score added for text shorter than the rules' minTextLength
  */
-const MIN_CONTENT_LENGTH = 500;
+const LITTLE_TEXT_WEIGHT = 0.3;
 
 /**
- * Confidence threshold for flagging as soft 404
+ * Extra information for classifying a destination page
  */
-const SOFT_404_THRESHOLD = 0.5;
+export interface Soft404Context {
+  /** How the destination answers nonexistent paths (null when not calibrated) */
+  calibration?: Soft404Calibration | null;
+  /** Final URL when the request was redirected */
+  redirectedTo?: string | null;
+  /** Rules for the heuristic (default: built-in English rules) */
+  rules?: Soft404RuleSet;
+  /** Destination path, checked against the rules' allowPaths */
+  path?: string;
+}
+
+/**
+ * Nonexistent paths requested per calibration ({id} is random). Nested and
+ * file-like paths catch sites that route them to different error pages.
+ */
+const CALIBRATION_PATHS = ['/{id}', '/{id}/{id}', '/{id}.html'];
 
 /**
- * Detects if a page is a soft 404 (returns 200 but shows error content)
+ * Statuses of probes that were refused rather than answered
+ */
+const AUTH_FAILURE_STATUSES = [401, 403, 407];
+
+/**
+ * Body similarity to the calibrated 404 page at which a page is a soft 404
+ */
+const CALIBRATED_SIMILARITY = 0.9;
+
+/**
+ * Lower similarity that is enough when the title is also the 404 page's title
+ */
+const CALIBRATED_SIMILARITY_WITH_TITLE = 0.75;
+
+/**
+ * Requests a few random nonexistent paths under the destination URL and
+ * records how the site answers them
+ */
+export async function calibrateSoft404(
+  destinationUrl: string,
+  timeout: number,
+  auth: RequestAuth | null = null
+): Promise<Soft404Calibration> {
+  const probes = await Promise.all(
+    CALIBRATION_PATHS.map(async template => {
+      const probePath = template.replace(/\{id\}/g, () => randomBytes(6).toString('hex'));
+      const url = destinationUrl.replace(/\/$/, '') + probePath;
+      const result = await fetchUrl(url, { timeout, retries: 0, auth });
+      if (result.error) {
+        return { url, statusCode: null, finalUrl: null, title: null, textLength: 0, content: null };
+      }
+      const page = analyzePage(result.body, { baseUrl: result.finalUrl, fingerprint: true });
+      return {
+        url,
+        statusCode: result.statusCode,
+        finalUrl: result.finalUrl,
+        title: page.title,
+        textLength: page.bodyText.length,
+        content: page.content ?? null,
+      };
+    })
+  );
+
+  const soft = probes.filter(p => p.statusCode !== null && isSuccessStatus(p.statusCode)).length;
+  // Auth failures say nothing about how missing pages are answered
+  const hard = probes.filter(p =>
+    p.statusCode !== null && p.statusCode >= 400 && p.statusCode < 500 && !AUTH_FAILURE_STATUSES.includes(p.statusCode)
+  ).length;
+  const behavior = soft > 0 && hard > 0 ? 'mixed' : soft > 0 ? 'soft_404' : hard > 0 ? 'hard_404' : 'unavailable';
+
+  return { behavior, probes, calibratedAt: new Date().toISOString() };
+}
+
+/**
+ * Describes a calibration in one line
+ */
+export function describeCalibration(calibration: Soft404Calibration): string {
+  const answers = calibration.probes.map(p => p.statusCode ?? 'error').join(', ');
+  switch (calibration.behavior) {
+    case 'hard_404':
+      return `real 404s (${answers}); only pages showing explicit error text are flagged`;
+    case 'soft_404':
+    case 'mixed': {
+      const page = calibration.probes.find(p => p.statusCode !== null && isSuccessStatus(p.statusCode));
+      return `soft 404 page "${page?.title ?? ''}" (${answers}); pages resembling it are flagged`;
+    }
+    default:
+      return `no usable answer (${answers}); using the built-in heuristic`;
+  }
+}
+
+/**
+ * Detects if a page is a soft 404 (returns 200 but shows error content).
+ * With a calibration, pages are compared with the site's own 404 page; the
+ * pattern and length heuristic is the fallback. Selector rules only match
+ * if the page was analyzed with the rules' selectors.
  */
 export function checkSoft404(
-  body: string,
-  title: string | null,
-  statusCode: number
+  page: ParsedPage,
+  statusCode: number,
+  context: Soft404Context = {}
 ): Soft404CheckResult {
-  // If it's already a real 404, not a soft 404
-  if (statusCode === 404) {
-    return { isSoft404: false, confidence: 0, reasons: [] };
-  }
+  const calibration = context.calibration?.behavior === 'unavailable' ? null : context.calibration ?? null;
+  const method = calibration ? 'calibration' : 'heuristic';
+  const rules = context.rules ?? DEFAULT_SOFT404_RULES;
 
-  // Only check pages that returned 200
+  // Only check pages that returned 200 (a real 404 is not a soft 404)
   if (statusCode !== 200) {
-    return { isSoft404: false, confidence: 0, reasons: [] };
+    return { isSoft404: false, confidence: 0, reasons: [], method };
+  }
+
+  // Pages like search results may legitimately say "nothing found"
+  const allowed = context.path !== undefined ? rules.allowPaths.find(a => a.regex.test(context.path!)) : undefined;
+  if (allowed) {
+    return { isSoft404: false, confidence: 0, reasons: [`Rule "allow:${allowed.source}": path is allowlisted`], method };
   }
 
+  const softProbes = calibration?.probes.filter(p => p.statusCode !== null && isSuccessStatus(p.statusCode)) ?? [];
+  if (softProbes.length > 0) {
+    return matchCalibration(page, softProbes, context.redirectedTo ?? null);
+  }
+
+  // A site that answers missing paths with real 404s does not serve short 200 error pages by accident
+  return checkHeuristic(page, rules, { lengthRules: !calibration });
+}
+
+/**
+ * Compares a page with the 2xx answers the site gave for nonexistent paths
+ */
+function matchCalibration(
+  page: ParsedPage,
+  probes: Soft404Probe[],
+  redirectedTo: string | null
+): Soft404CheckResult {
+  // Missing paths that redirect (e.g. to the home page) land on the same URL
+  const sameLanding = redirectedTo
+    ? probes.find(p => p.finalUrl !== p.url && p.finalUrl === redirectedTo)
+    : undefined;
+  if (sameLanding) {
+    return {
+      isSoft404: true,
+      confidence: 1,
+      reasons: [`Rule "calibration:redirect": redirected to the same page as nonexistent paths (${redirectedTo})`],
+      method: 'calibration',
+    };
+  }
+
+  const { title } = page;
+  const content = page.content ?? fingerprintText(page.bodyText);
+  let best: { similarity: number; sameTitle: boolean } = { similarity: 0, sameTitle: false };
+  for (const probe of probes) {
+    const similarity = probe.content ? compareFingerprints(content, probe.content) : 0;
+    const sameTitle = !!title && title === probe.title;
+    if (similarity > best.similarity) {
+      best = { similarity, sameTitle };
+    }
+  }
+
+  const isSoft404 = best.similarity >= CALIBRATED_SIMILARITY ||
+    (best.sameTitle && best.similarity >= CALIBRATED_SIMILARITY_WITH_TITLE);
+  const reasons = isSoft404
+    ? [
+        `Rule "calibration:body": body matches the site's 404 page (${Math.round(best.similarity * 100)}% similar)`,
+        ...(best.sameTitle ? [`Rule "calibration:title": same title as the site's 404 page ("${title}")`] : []),
+      ]
+    : [];
+
+  return { isSoft404, confidence: best.similarity, reasons, method: 'calibration' };
+}
+
+/**
+ * Pattern, selector and length heuristic. Length rules are skipped when
+ * calibration showed that the site returns real 404s.
+ */
+function checkHeuristic(
+  page: ParsedPage,
+  rules: Soft404RuleSet,
+  options: { lengthRules: boolean }
+): Soft404CheckResult {
+  const { title, bodyText } = page;
   const reasons: string[] = [];
   let score = 0;
 
-  // Check title for error patterns
-  if (title) {
-    for (const pattern of TITLE_ERROR_PATTERNS) {
-      if (pattern.test(title)) {
-        score += 0.4;
-        reasons.push(`Title matches error pattern: "${title}"`);
-        break;
-      }
-    }
+  // The strongest title rule counts once
+  const titleMatch = title ? strongest(rules.titlePatterns.filter(p => p.regex.test(title))) : undefined;
+  if (titleMatch) {
+    score += titleMatch.weight;
+    reasons.push(`Rule "${titleMatch.id}": title "${title}"`);
   }
 
-  // Check body for error patterns
-  const bodyLower = body.toLowerCase();
-  let bodyMatchCount = 0;
-  for (const pattern of BODY_ERROR_PATTERNS) {
-    if (pattern.test(bodyLower)) {
-      bodyMatchCount++;
-      if (bodyMatchCount === 1) {
-        reasons.push(`Body contains error indicator`);
-      }
+  // Several body rules add up, to a limit
+  let bodyScore = 0;
+  for (const pattern of rules.bodyPatterns) {
+    const match = pattern.regex.exec(bodyText);
+    if (match) {
+      bodyScore += pattern.weight;
+      reasons.push(`Rule "${pattern.id}": body contains "${match[0]}"`);
     }
   }
+  score += Math.min(bodyScore, BODY_SCORE_CAP);
 
-  // Multiple body matches increase confidence
-  if (bodyMatchCount > 0) {
-    score += Math.min(0.3 + (bodyMatchCount * 0.1), 0.5);
+  const selectorMatch = strongest(rules.selectors.filter(s => page.matchedSelectors.includes(s.selector)));
+  if (selectorMatch) {
+    score += selectorMatch.weight;
+    reasons.push(`Rule "${selectorMatch.id}": page matches ${selectorMatch.selector}`);
   }
 
-  // Check content length - very short pages are suspicious
-  const contentLength = body.length;
-  if (contentLength < MIN_CONTENT_LENGTH) {
-    score += 0.2;
-    reasons.push(`Short content length: ${contentLength} chars`);
-  }
+  if (options.lengthRules) {
+    // Check content length - very short pages are suspicious
+    const contentLength = page.contentLength;
+    if (contentLength < rules.minContentLength) {
+      score += SHORT_CONTENT_WEIGHT;
+      reasons.push(`Rule "min-content-length": ${contentLength} chars (minimum ${rules.minContentLength})`);
+    }
 
-  // Check for empty or near-empty body
-  const textContent = body.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
-  if (textContent.length < 100) {
-    score += 0.3;
-    reasons.push(`Very little text content: ${textContent.length} chars`);
+    // Check for empty or near-empty body
+    if (bodyText.length < rules.minTextLength) {
+      score += LITTLE_TEXT_WEIGHT;
+      reasons.push(`Rule "min-text-length": ${bodyText.length} chars of text (minimum ${rules.minTextLength})`);
+    }
   }
 
   const confidence = Math.min(score, 1);
-  const isSoft404 = confidence >= SOFT_404_THRESHOLD;
+  const isSoft404 = confidence >= rules.threshold;
 
   return {
     isSoft404,
     confidence,
     reasons,
+    method: 'heuristic',
   };
 }
 
+/**
+ * Returns the rule with the highest weight
+ */
+function strongest<T extends { weight: number }>(matches: T[]): T | undefined {
+  return matches.reduce<T | undefined>((best, m) => (!best || m.weight > best.weight ? m : best), undefined);
+}
+
 /**
  * Compares two titles to check if they're similar enough
  * Returns true if titles match (accounting for minor differences)
@@ -165,7 +312,7 @@ export function titlesMatch(
 /**
  * Calculates string similarity using Sørensen–Dice coefficient
  */
-function calculateSimilarity(s1: string, s2: string): number {
+export function calculateSimilarity(s1: string, s2: string): number {
   if (s1 === s2) return 1;
   if (s1.length < 2 || s2.length < 2) return 0;
 
@@ -0,0 +1,244 @@
+import fse from 'fs-extra';
+import type { ContentFingerprint, CrawledUrl, CrawlerOutput, RedirectSuggestion } from '../types/index.js';
+import { calculateSimilarity } from './soft404.js';
+import type { RequestAuth } from './auth.js';
+import { createLimiter } from './concurrency.js';
+import { compareFingerprints, fingerprintText } from './fingerprint.js';
+import { fetchUrl, isSuccessStatus } from './http.js';
+import { analyzePage } from './page-analysis.js';
+import type { HostScheduler } from './scheduler.js';
+
+/**
+ * Weight of each signal in the combined score. Missing signals are left out
+ * and the remaining weights are rescaled.
+ */
+const SIGNAL_WEIGHTS = { slug: 0.4, title: 0.35, body: 0.25 };
+
+/**
+ * Candidates scored on body text per broken URL (ranked by slug and title first)
+ */
+const BODY_CANDIDATES = 8;
+
+/**
+ * Suggestions scoring below this are dropped
+ */
+const MIN_SUGGESTION_SCORE = 0.3;
+
+/**
+ * Most destination pages fetched for body scores at once, across all broken URLs
+ */
+const MAX_BODY_FETCHES = 2;
+
+/**
+ * Fingerprint similarity of unrelated texts; body scores are rescaled so it counts as 0
+ */
+const UNRELATED_SIMILARITY = 0.5;
+
+/**
+ * A destination page prepared for matching
+ */
+interface IndexedPage {
+  url: string;
+  path: string;
+  title: string | null;
+  slug: string;
+  normalizedTitle: string;
+}
+
+/**
+ * Destination pages to suggest from, with a cache of body fingerprints.
+ * Pages missing from a crawl made without --fingerprint are fetched once,
+ * a few at a time, through the run's scheduler.
+ */
+export interface SuggestionIndex {
+  pages: IndexedPage[];
+  fingerprints: Map<string, Promise<ContentFingerprint | null>>;
+  limit: ReturnType<typeof createLimiter>;
+  timeout: number;
+  auth: RequestAuth | null;
+  scheduler: HostScheduler | null;
+  maxBodySize?: number;
+}
+
+/**
+ * Builds a suggestion index from a destination crawl (2xx pages only)
+ */
+export async function loadSuggestionIndex(
+  crawlPath: string,
+  options: {
+    timeout: number;
+    auth?: RequestAuth | null;
+    scheduler?: HostScheduler | null;
+    maxBodySize?: number;
+  }
+): Promise<SuggestionIndex> {
+  const crawl: CrawlerOutput = await fse.readJson(crawlPath);
+  if (!Array.isArray(crawl.urls)) {
+    throw new Error(`Not a crawler output file: ${crawlPath}`);
+  }
+
+  const successful = crawl.urls.filter(u => isSuccessStatus(u.statusCode));
+  const pages = successful.map(u => ({
+    url: u.url,
+    path: u.path,
+    title: u.title,
+    slug: slugOf(u.path),
+    normalizedTitle: normalizeText(u.title ?? ''),
+  }));
+
+  // Fingerprints recorded by the crawl are used as they are
+  const fingerprints = new Map<string, Promise<ContentFingerprint | null>>();
+  for (const u of successful) {
+    if (u.content) {
+      fingerprints.set(u.url, Promise.resolve(u.content));
+    }
+  }
+
+  return {
+    pages,
+    fingerprints,
+    limit: createLimiter(MAX_BODY_FETCHES),
+    timeout: options.timeout,
+    auth: options.auth ?? null,
+    scheduler: options.scheduler ?? null,
+    maxBodySize: options.maxBodySize,
+  };
+}
+
+/**
+ * Ranks destination pages that may hold a broken source URL's content.
+ * Every page is scored on slug and title; the best few are then scored on
+ * body text as well, when the source crawl recorded a fingerprint (the
+ * source page itself may already redirect or be gone).
+ */
+export async function suggestDestinations(
+  source: CrawledUrl,
+  index: SuggestionIndex,
+  count: number
+): Promise<RedirectSuggestion[]> {
+  const sourceSlug = slugOf(source.path);
+  const sourceTitle = normalizeText(source.title ?? '');
+
+  const ranked = index.pages
+    .filter(page => page.path !== source.path)
+    .map(page => {
+      const slug = sourceSlug && page.slug ? calculateSimilarity(sourceSlug, page.slug) : 0;
+      const title = sourceTitle && page.normalizedTitle
+        ? calculateSimilarity(sourceTitle, page.normalizedTitle)
+        : null;
+      return { page, slug, title };
+    })
+    .map(candidate => ({ ...candidate, score: combineScores(candidate.slug, candidate.title, null) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(count, BODY_CANDIDATES));
+
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const sourceContent = source.content && source.content.wordCount > 0 ? source.content : null;
+
+  const suggestions = await Promise.all(
+    ranked.map(async ({ page, slug, title }) => {
+      const pageContent = sourceContent ? await getFingerprint(page.url, index) : null;
+      const body = sourceContent && pageContent ? bodySimilarity(sourceContent, pageContent) : null;
+      return {
+        url: page.url,
+        path: page.path,
+        title: page.title,
+        score: round(combineScores(slug, title, body)),
+        signals: { slug: round(slug), title: title === null ? null : round(title), body: body === null ? null : round(body) },
+      };
+    })
+  );
+
+  return suggestions
+    .filter(s => s.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count);
+}
+
+/**
+ * Weighted average of the available signals
+ */
+function combineScores(slug: number, title: number | null, body: number | null): number {
+  let total = SIGNAL_WEIGHTS.slug * slug;
+  let weight = SIGNAL_WEIGHTS.slug;
+  if (title !== null) {
+    total += SIGNAL_WEIGHTS.title * title;
+    weight += SIGNAL_WEIGHTS.title;
+  }
+  if (body !== null) {
+    total += SIGNAL_WEIGHTS.body * body;
+    weight += SIGNAL_WEIGHTS.body;
+  }
+  return total / weight;
+}
+
+/**
+ * Returns a destination page's body fingerprint, fetching the page once if
+ * the crawl did not record it (null if unavailable, never rejects)
+ */
+function getFingerprint(url: string, index: SuggestionIndex): Promise<ContentFingerprint | null> {
+  let content = index.fingerprints.get(url);
+  if (!content) {
+    content = index.limit(() =>
+      fetchUrl(url, {
+        timeout: index.timeout,
+        retries: 0,
+        auth: index.auth,
+        scheduler: index.scheduler,
+        maxBodySize: index.maxBodySize,
+      })
+    )
+      .then(result =>
+        result.error || !isSuccessStatus(result.statusCode)
+          ? null
+          : analyzePage(result.body, { baseUrl: result.finalUrl, fingerprint: true }).content ?? null
+      )
+      // A page that cannot be fetched or parsed only loses its body score
+      .catch(() => null);
+    index.fingerprints.set(url, content);
+  }
+  return content;
+}
+
+/**
+ * Body similarity from 0 to 1, with unrelated texts at 0
+ */
+function bodySimilarity(a: ContentFingerprint, b: ContentFingerprint): number {
+  const similarity = compareFingerprints(a, b);
+  return Math.max(0, (similarity - UNRELATED_SIMILARITY) / (1 - UNRELATED_SIMILARITY));
+}
+
+/**
+ * Last path segment as words ("/blog/2019/My_Post.html" -> "my post")
+ */
+function slugOf(path: string): string {
+  const pathname = path.split('?')[0];
+  const segment = pathname.split('/').filter(Boolean).pop() ?? '';
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Keep the raw segment
+  }
+  return normalizeText(decoded.replace(/\.(html?|php|aspx?)$/i, '').replace(/[-_+.]/g, ' '));
+}
+
+/**
+ * Lowercases text and reduces it to words separated by single spaces
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Rounds a score to three decimals
+ */
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
@@ -0,0 +1,180 @@
+import type {
+  ThresholdViolation,
+  ValidationIssue,
+  ValidationSummary,
+  ValidationThresholds,
+  ValidationVerdict,
+} from '../types/index.js';
+
+/**
+ * Exit code when validation ran but exceeded a threshold.
+ * Tool failures (bad arguments, exceptions) exit with 1.
+ */
+export const EXIT_THRESHOLDS_EXCEEDED = 2;
+
+/**
+ * Summary counter for each issue type that can have a per-type limit
+ */
+const ISSUE_SUMMARY_FIELDS: Partial<Record<ValidationIssue['type'], keyof ValidationSummary>> = {
+  not_found: 'notFoundCount',
+  soft_404: 'soft404Count',
+  server_error: 'serverErrorCount',
+  title_mismatch: 'titleMismatchCount',
+  content_mismatch: 'contentMismatchCount',
+  redirect: 'redirectCount',
+  redirect_chain: 'redirectChainCount',
+  temporary_redirect: 'temporaryRedirectCount',
+  cross_domain_redirect: 'crossDomainRedirectCount',
+  redirect_loop: 'redirectLoopCount',
+  robots_disallowed: 'robotsDisallowedCount',
+  unmapped: 'unmappedCount',
+  meta_description_mismatch: 'metaDescriptionMismatchCount',
+  h1_mismatch: 'h1MismatchCount',
+  canonical_mismatch: 'canonicalMismatchCount',
+  noindex: 'noindexCount',
+  open_graph_mismatch: 'openGraphMismatchCount',
+  hreflang_mismatch: 'hreflangMismatchCount',
+};
+
+/**
+ * Issue types that accept a per-type limit
+ */
+export const THRESHOLD_ISSUE_TYPES = Object.keys(ISSUE_SUMMARY_FIELDS) as Array<ValidationIssue['type']>;
+
+/**
+ * CLI flag name for an issue type limit (soft_404 -> max-soft-404)
+ */
+export function issueThresholdName(type: ValidationIssue['type']): string {
+  return `max-${type.replace(/_/g, '-')}`;
+}
+
+/**
+ * Raw threshold option values as given on the command line
+ */
+export interface ThresholdOptions {
+  failOn?: string;
+  maxErrors?: string;
+  maxWarnings?: string;
+  maxErrorRate?: string;
+  maxIssues?: Partial<Record<ValidationIssue['type'], string>>;
+}
+
+/**
+ * Parses threshold options. Returns undefined when none are set.
+ * Throws on invalid values.
+ */
+export function parseThresholds(options: ThresholdOptions): ValidationThresholds | undefined {
+  const failOn = options.failOn ?? 'none';
+  if (failOn !== 'none' && failOn !== 'warning' && failOn !== 'error') {
+    throw new Error(`Invalid fail-on value: ${failOn} (valid: none, warning, error)`);
+  }
+
+  const thresholds: ValidationThresholds = { failOn };
+  if (options.maxErrors !== undefined) {
+    thresholds.maxErrors = parseCount(options.maxErrors, 'max-errors');
+  }
+  if (options.maxWarnings !== undefined) {
+    thresholds.maxWarnings = parseCount(options.maxWarnings, 'max-warnings');
+  }
+  if (options.maxErrorRate !== undefined) {
+    thresholds.maxErrorRate = parseRate(options.maxErrorRate, 'max-error-rate');
+  }
+  for (const [type, value] of Object.entries(options.maxIssues ?? {})) {
+    if (value === undefined) continue;
+    const issueType = type as ValidationIssue['type'];
+    thresholds.maxIssues = {
+      ...thresholds.maxIssues,
+      [issueType]: parseCount(value, issueThresholdName(issueType)),
+    };
+  }
+
+  const isEmpty = failOn === 'none'
+    && thresholds.maxErrors === undefined
+    && thresholds.maxWarnings === undefined
+    && thresholds.maxErrorRate === undefined
+    && thresholds.maxIssues === undefined;
+  return isEmpty ? undefined : thresholds;
+}
+
+/**
+ * Checks a summary against thresholds. Without thresholds every run passes.
+ */
+export function evaluateThresholds(
+  summary: ValidationSummary,
+  thresholds: ValidationThresholds | undefined
+): ValidationVerdict {
+  const violations: ThresholdViolation[] = [];
+  const check = (threshold: string, limit: number, actual: number, message: string) => {
+    if (actual > limit) {
+      violations.push({ threshold, limit, actual, message });
+    }
+  };
+
+  if (thresholds) {
+    if (thresholds.failOn === 'error') {
+      check('fail-on', 0, summary.errorUrls, `${summary.errorUrls} URLs with errors (--fail-on error)`);
+    } else if (thresholds.failOn === 'warning') {
+      const failing = summary.errorUrls + summary.warningUrls;
+      check('fail-on', 0, failing, `${failing} URLs with errors or warnings (--fail-on warning)`);
+    }
+
+    if (thresholds.maxErrors !== undefined) {
+      check('max-errors', thresholds.maxErrors, summary.errorUrls,
+        `${summary.errorUrls} error URLs (max ${thresholds.maxErrors})`);
+    }
+    if (thresholds.maxWarnings !== undefined) {
+      check('max-warnings', thresholds.maxWarnings, summary.warningUrls,
+        `${summary.warningUrls} warning URLs (max ${thresholds.maxWarnings})`);
+    }
+    if (thresholds.maxErrorRate !== undefined) {
+      const rate = summary.totalUrls > 0 ? summary.errorUrls / summary.totalUrls : 0;
+      check('max-error-rate', thresholds.maxErrorRate, rate,
+        `Error rate ${formatRate(rate)} (max ${formatRate(thresholds.maxErrorRate)})`);
+    }
+
+    for (const [type, limit] of Object.entries(thresholds.maxIssues ?? {})) {
+      const field = ISSUE_SUMMARY_FIELDS[type as ValidationIssue['type']];
+      if (!field || limit === undefined) continue;
+      const actual = summary[field];
+      check(issueThresholdName(type as ValidationIssue['type']), limit, actual, `${actual} ${type} issues (max ${limit})`);
+    }
+  }
+
+  return {
+    status: violations.length > 0 ? 'fail' : 'pass',
+    exitCode: violations.length > 0 ? EXIT_THRESHOLDS_EXCEEDED : 0,
+    violations,
+  };
+}
+
+/**
+ * Parses a non-negative integer count
+ */
+function parseCount(value: string, name: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name} value: ${value}`);
+  }
+  return count;
+}
+
+/**
+ * Parses a rate given as a percentage ("2%") or a fraction ("0.02")
+ */
+function parseRate(value: string, name: string): number {
+  const trimmed = value.trim();
+  const rate = trimmed.endsWith('%')
+    ? Number(trimmed.slice(0, -1)) / 100
+    : Number(trimmed);
+  if (trimmed === '' || isNaN(rate) || rate < 0 || rate > 1) {
+    throw new Error(`Invalid ${name} value: ${value} (use a percentage like 2% or a fraction like 0.02)`);
+  }
+  return rate;
+}
+
+/**
+ * Formats a fraction as a percentage
+ */
+function formatRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
@@ -0,0 +1,185 @@
+import path from 'node:path';
+import fse from 'fs-extra';
+import type { UrlMapRule } from '../types/index.js';
+import { parseCsv } from './csv.js';
+import { joinUrl } from './html-parser.js';
+
+/**
+ * A loaded URL mapping file, ready for lookups
+ */
+export interface UrlMap {
+  /** Exact rules keyed by normalized source path */
+  exact: Map<string, UrlMapRule>;
+  /** Pattern rules in file order, with compiled regexes */
+  patterns: Array<{ rule: UrlMapRule; regex: RegExp }>;
+}
+
+/**
+ * Result of resolving a source path through the map
+ */
+export interface UrlMapResolution {
+  /** Expected destination URL */
+  destinationUrl: string;
+  /** Rule that matched, or null if no rule covered the path */
+  rule: UrlMapRule | null;
+}
+
+/**
+ * Loads a mapping file. Supported formats:
+ *
+ * - JSON: an array (or `{ "rules": [...] }`) of `{ "from": "/old", "to": "/new" }`
+ *   and `{ "pattern": "^/blog/\\d+/\\d+/(.+)$", "to": "/articles/$1" }` entries
+ * - CSV: `from,to[,type]` rows with an optional header. A row is a pattern rule
+ *   when type is `pattern`/`regex` or when `from` starts with `^`
+ *
+ * Targets may be paths (joined with the destination URL) or absolute URLs, and
+ * may reference capture groups as `$1` or `$<name>`.
+ */
+export async function loadUrlMap(mapPath: string): Promise<UrlMap> {
+  const text = await fse.readFile(mapPath, 'utf8');
+  const file = path.basename(mapPath);
+  const rules = path.extname(mapPath).toLowerCase() === '.json'
+    ? parseJsonRules(text, file)
+    : parseCsvRules(text, file);
+
+  const map: UrlMap = { exact: new Map(), patterns: [] };
+  for (const rule of rules) {
+    if (rule.type === 'exact') {
+      const key = normalizeMapPath(rule.from);
+      // First rule wins, like the pattern list
+      if (!map.exact.has(key)) {
+        map.exact.set(key, rule);
+      }
+    } else {
+      try {
+        map.patterns.push({ rule, regex: new RegExp(rule.from) });
+      } catch (error) {
+        throw new Error(`Invalid pattern at ${rule.location}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Resolves a source path to its expected destination URL.
+ * Exact rules win over patterns; patterns are tried in file order. Both are
+ * matched against the full path first, then the path without its query.
+ * Unmapped paths keep their path on the destination.
+ */
+export function resolveMappedUrl(
+  map: UrlMap,
+  sourcePath: string,
+  destinationUrl: string
+): UrlMapResolution {
+  const exact = map.exact.get(normalizeMapPath(sourcePath))
+    ?? map.exact.get(normalizeMapPath(sourcePath.split('?')[0]));
+  if (exact) {
+    return { destinationUrl: joinUrl(destinationUrl, exact.to), rule: exact };
+  }
+
+  const pathname = sourcePath.split('?')[0];
+  for (const { rule, regex } of map.patterns) {
+    const match = regex.exec(sourcePath) ?? (pathname !== sourcePath ? regex.exec(pathname) : null);
+    if (match) {
+      const target = expandCaptures(rule.to, match);
+      return { destinationUrl: joinUrl(destinationUrl, target), rule };
+    }
+  }
+
+  return { destinationUrl: joinUrl(destinationUrl, sourcePath), rule: null };
+}
+
+/**
+ * Hosts of the map's absolute targets (targets whose host is built from
+ * capture groups are left out)
+ */
+export function mapTargetHosts(map: UrlMap): string[] {
+  const rules = [...map.exact.values(), ...map.patterns.map(p => p.rule)];
+  const hosts = new Set<string>();
+  for (const rule of rules) {
+    if (!/^https?:\/\//i.test(rule.to)) {
+      continue;
+    }
+    try {
+      const { hostname } = new URL(rule.to);
+      if (!hostname.includes('$')) {
+        hosts.add(hostname);
+      }
+    } catch {
+      // Not a valid URL until its captures are filled in
+    }
+  }
+  return [...hosts];
+}
+
+/**
+ * Parses JSON mapping rules
+ */
+function parseJsonRules(text: string, file: string): UrlMapRule[] {
+  const data = JSON.parse(text);
+  const entries: unknown[] = Array.isArray(data) ? data : data?.rules;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${file}: expected an array of rules or { "rules": [...] }`);
+  }
+
+  return entries.map((entry, index) => {
+    const e = entry as { from?: string; pattern?: string; to?: string };
+    const location = `${file}#${index + 1}`;
+    if (typeof e.to !== 'string' || (typeof e.from !== 'string' && typeof e.pattern !== 'string')) {
+      throw new Error(`${location}: each rule needs "to" and either "from" or "pattern"`);
+    }
+    return typeof e.pattern === 'string'
+      ? { type: 'pattern' as const, from: e.pattern, to: e.to, location }
+      : { type: 'exact' as const, from: e.from!, to: e.to, location };
+  });
+}
+
+/**
+ * Parses CSV mapping rules
+ */
+export function parseCsvRules(text: string, file: string): UrlMapRule[] {
+  const rows = parseCsv(text);
+  const hasHeader = rows.length > 0 && /^(from|source)/i.test(rows[0][0]?.trim() ?? '');
+  const rules: UrlMapRule[] = [];
+
+  rows.forEach((row, index) => {
+    if (hasHeader && index === 0) return;
+    const [from = '', to = '', type = ''] = row.map(f => f.trim());
+    const location = `${file}:${index + 1}`;
+    if (!from || !to) {
+      throw new Error(`${location}: expected "from,to[,type]"`);
+    }
+    const isPattern = /^(pattern|regex)$/i.test(type) || from.startsWith('^');
+    rules.push({ type: isPattern ? 'pattern' : 'exact', from, to, location });
+  });
+
+  return rules;
+}
+
+/**
+ * Substitutes $1..$n and $<name> references with capture groups
+ */
+function expandCaptures(template: string, match: RegExpExecArray): string {
+  return template
+    .replace(/\$<([A-Za-z_][A-Za-z0-9_]*)>/g, (_, name: string) => match.groups?.[name] ?? '')
+    .replace(/\$(\d+)/g, (_, n: string) => match[parseInt(n, 10)] ?? '');
+}
+
+/**
+ * Normalizes a path for exact matching (accepts full URLs, ignores trailing slash)
+ */
+function normalizeMapPath(value: string): string {
+  let p = value;
+  try {
+    const parsed = new URL(value);
+    p = parsed.pathname + parsed.search;
+  } catch {
+    // Already a path
+  }
+  if (p.length > 1 && p.endsWith('/')) {
+    p = p.slice(0, -1);
+  }
+  return p;
+}
@@ -1,49 +1,272 @@
 import chalk from 'chalk';
 import fse from 'fs-extra';
 import type {
+  CrawledUrl,
   CrawlerOutput,
+  Soft404Calibration,
   ValidatorConfig,
   ValidationReport,
   ValidationResult,
   ValidationSummary,
   ValidationIssue,
+  ValidationVerdict,
 } from './types/index.js';
-import { fetchUrl, isSuccessStatus, isServerErrorStatus } from './utils/http.js';
-import { extractTitle, extractBodyText, joinUrl } from './utils/html-parser.js';
-import { checkSoft404, titlesMatch } from './utils/soft404.js';
+import { configureHttpAgent, fetchUrl, isSuccessStatus, isServerErrorStatus } from './utils/http.js';
+import { joinUrl } from './utils/html-parser.js';
+import { PageAnalyzer } from './utils/page-analysis.js';
+import { calibrateSoft404, checkSoft404, describeCalibration, titlesMatch } from './utils/soft404.js';
+import { DEFAULT_SOFT404_RULES, loadSoft404Rules, type Soft404RuleSet } from './utils/soft404-rules.js';
 import { createLimiter, formatDuration } from './utils/concurrency.js';
+import { fetchRobotsPolicy, type RobotsPolicy } from './utils/robots.js';
+import { getCheckpointPath, writeJsonAtomic } from './utils/checkpoint.js';
+import { getReportPath, writeReports } from './reporters/index.js';
+import { loadUrlMap, mapTargetHosts, resolveMappedUrl, type UrlMap } from './utils/url-map.js';
+import { compareSeoMetadata } from './utils/seo.js';
+import { compareFingerprints } from './utils/fingerprint.js';
+import { evaluateThresholds } from './utils/thresholds.js';
+import { addAuthHosts, describeAuth, redactAuth, resolveAuth, type RequestAuth } from './utils/auth.js';
+import { describeResolveOverrides } from './utils/resolve.js';
+import { HostScheduler } from './utils/scheduler.js';
+import { loadSuggestionIndex, suggestDestinations, type SuggestionIndex } from './utils/suggest.js';
 
 /**
- * Validates crawled URLs against a destination
+ * Redirect status codes that do not pass link equity permanently
  */
-export async function validate(config: ValidatorConfig): Promise<ValidationReport> {
+const TEMPORARY_REDIRECT_STATUSES = [302, 303, 307];
+
+/**
+ * Suggestions kept per broken URL unless configured otherwise
+ */
+const DEFAULT_SUGGESTION_COUNT = 3;
+
+/**
+ * Body text similarity below which a content_mismatch is reported, unless configured otherwise.
+ * Unrelated texts score around 0.5.
+ */
+const DEFAULT_CONTENT_THRESHOLD = 0.7;
+
+/**
+ * Source pages with fewer words are not compared (their fingerprints are too noisy)
+ */
+const MIN_FINGERPRINT_WORDS = 20;
+
+/**
+ * Per-run state shared by every validateUrl call
+ */
+interface ValidationContext {
+  /** Destination robots.txt policy (when checkRobots is on) */
+  destinationRobots: RobotsPolicy | null;
+  /** Source robots.txt policy, or null if every crawled URL is known to be crawlable */
+  sourceRobots: RobotsPolicy | null;
+  /** URL mapping rules (when a mapping file is given) */
+  urlMap: UrlMap | null;
+  /** Destination pages to suggest for broken URLs (when a destination crawl is given) */
+  suggestionIndex: SuggestionIndex | null;
+  /** How the destination answers nonexistent paths (when calibration is on) */
+  soft404Calibration: Soft404Calibration | null;
+  /** Soft 404 heuristic rules (built-in unless a rules file is given) */
+  soft404Rules: Soft404RuleSet;
+  /** Credentials and cookies for the destination (when auth is configured) */
+  auth: RequestAuth | null;
+  /** Per-host pacing and backoff for destination requests */
+  scheduler: HostScheduler;
+  /** Parses each destination page once for all checks */
+  analyzer: PageAnalyzer;
+}
+
+/**
+ * Validates crawled URLs against a destination.
+ * When a partial report is given, paths it already covers are skipped.
+ */
+export async function validate(
+  config: ValidatorConfig,
+  resumeFrom?: ValidationReport
+): Promise<ValidationReport> {
   const startTime = Date.now();
   const log = config.verbose ? console.log : () => {};
+  const checkpointPath = getCheckpointPath(config.outputPath);
 
   // Load crawler output
   log(chalk.blue('Loading crawler output:'), config.inputPath);
   const crawlerOutput: CrawlerOutput = await fse.readJson(config.inputPath);
 
+  // Results carried over from earlier runs, keyed by source path
+  const carried = new Map<string, ValidationResult>();
+  let urlsToValidate = crawlerOutput.urls;
+
+  // Only re-check paths that were errors or warnings last time; keep the rest
+  if (config.onlyFailedFrom) {
+    const previous = await loadValidationReport(config.onlyFailedFrom);
+    const failedPaths = new Set<string>();
+    for (const result of previous.results) {
+      if (result.status === 'ok') {
+        carried.set(result.sourcePath, result);
+      } else {
+        failedPaths.add(result.sourcePath);
+      }
+    }
+    urlsToValidate = urlsToValidate.filter(u => failedPaths.has(u.path));
+    log(chalk.blue('Re-checking failed results from:'), config.onlyFailedFrom);
+  }
+
+  if (resumeFrom) {
+    for (const result of resumeFrom.results) {
+      carried.set(result.sourcePath, result);
+    }
+  }
+
+  // Skip paths that already have a result
+  urlsToValidate = urlsToValidate.filter(u => !carried.has(u.path));
+
   console.log(chalk.blue('Source:'), crawlerOutput.sourceUrl);
   console.log(chalk.blue('Destination:'), config.destinationUrl);
-  console.log(chalk.blue('URLs to validate:'), crawlerOutput.urls.length);
+  console.log(chalk.blue('URLs to validate:'), urlsToValidate.length);
+  if (carried.size > 0) {
+    console.log(chalk.blue('Carried over:'), carried.size);
+  }
   console.log('');
 
+  const context: ValidationContext = {
+    destinationRobots: null,
+    sourceRobots: null,
+    urlMap: null,
+    suggestionIndex: null,
+    soft404Calibration: null,
+    soft404Rules: DEFAULT_SOFT404_RULES,
+    auth: null,
+    scheduler: new HostScheduler({
+      concurrency: config.concurrency,
+      maxRequestsPerSecond: config.maxRequestsPerSecond,
+      logger: message => console.log(chalk.yellow(message)),
+    }),
+    analyzer: new PageAnalyzer({ workers: config.parseWorkers ?? 0 }),
+  };
+
+  // Connection pool for the whole run; hostnames are pinned before the first request
+  configureHttpAgent({ connections: config.concurrency, http2: config.http2, resolve: config.resolve });
+  if (config.resolve && config.resolve.length > 0) {
+    console.log(chalk.blue('Resolve:'), describeResolveOverrides(config.resolve));
+  }
+  log(chalk.blue('HTML parser:'), `${config.parser ?? 'auto'}` +
+    (config.parseWorkers ? `, ${config.parseWorkers} worker thread(s)` : ''));
+
+  // Log in before the first destination request
+  if (config.auth) {
+    context.auth = await resolveAuth(config.auth, config.destinationUrl, config.timeout);
+    log(chalk.blue('Auth:'), describeAuth(config.auth));
+  }
+
+  if (config.soft404RulesPath) {
+    context.soft404Rules = await loadSoft404Rules(config.soft404RulesPath);
+    const rules = context.soft404Rules;
+    log(
+      chalk.blue('Soft 404 rules:'),
+      `${config.soft404RulesPath} (${rules.titlePatterns.length + rules.bodyPatterns.length} patterns, ` +
+        `${rules.selectors.length} selectors, ${rules.allowPaths.length} allowed paths)`
+    );
+  }
+
+  // A resumed run keeps the calibration it started with
+  if (config.calibrateSoft404) {
+    context.soft404Calibration = resumeFrom?.soft404Calibration
+      ?? await calibrateSoft404(config.destinationUrl, config.timeout, context.auth);
+    console.log(chalk.blue('Soft 404 calibration:'), describeCalibration(context.soft404Calibration));
+  }
+
+  if (config.suggestFrom) {
+    context.suggestionIndex = await loadSuggestionIndex(config.suggestFrom, {
+      timeout: config.timeout,
+      auth: context.auth,
+      scheduler: context.scheduler,
+      maxBodySize: config.maxBodySize,
+    });
+    log(chalk.blue('Suggesting from:'), `${config.suggestFrom} (${context.suggestionIndex.pages.length} pages)`);
+    if (!crawlerOutput.urls.some(u => u.content)) {
+      log(chalk.gray('The source crawl has no fingerprints (--fingerprint), so suggestions are scored on slug and title only'));
+    }
+  }
+
+  if (config.mapPath) {
+    context.urlMap = await loadUrlMap(config.mapPath);
+    log(
+      chalk.blue('URL map:'),
+      `${config.mapPath} (${context.urlMap.exact.size} exact, ${context.urlMap.patterns.length} pattern rules)`
+    );
+    // Map targets on other hosts are part of the destination
+    if (context.auth) {
+      addAuthHosts(context.auth, mapTargetHosts(context.urlMap));
+    }
+  }
+
+  if (config.checkRobots) {
+    context.destinationRobots = await fetchRobotsPolicy(config.destinationUrl, { timeout: config.timeout, auth: context.auth });
+    log(chalk.blue('Destination robots.txt:'), context.destinationRobots.found ? 'found' : 'not found');
+
+    // A crawl that obeyed robots.txt only contains crawlable URLs
+    if (!crawlerOutput.config.respectRobots) {
+      context.sourceRobots = await fetchRobotsPolicy(crawlerOutput.sourceUrl, { timeout: config.timeout });
+      log(chalk.blue('Source robots.txt:'), context.sourceRobots.found ? 'found' : 'not found');
+    }
+  }
+
   const limiter = createLimiter(config.concurrency);
-  const results: ValidationResult[] = [];
+  const results: ValidationResult[] = [...carried.values()];
+
+  // Time spent and throttling seen in earlier sessions of a resumed run
+  const previousElapsedMs = resumeFrom?.summary.durationMs ?? 0;
+  const previousThrottled = resumeFrom?.summary.throttledCount ?? 0;
+
+  const buildReport = (partial: boolean): ValidationReport => {
+    const durationMs = previousElapsedMs + (Date.now() - startTime);
+    const throttledCount = previousThrottled + context.scheduler.getStats().throttled;
+    const summary = calculateSummary(results, durationMs, throttledCount);
+    return {
+      sourceUrl: crawlerOutput.sourceUrl,
+      destinationUrl: config.destinationUrl,
+      summary,
+      results: [...results].sort((a, b) => {
+        // Sort errors first, then warnings, then ok
+        const order = { error: 0, warning: 1, ok: 2 };
+        return order[a.status] - order[b.status];
+      }),
+      validatedAt: new Date().toISOString(),
+      config: { ...config, auth: redactAuth(config.auth) },
+      ...(context.soft404Calibration ? { soft404Calibration: context.soft404Calibration } : {}),
+      ...(partial ? { partial: true } : { verdict: evaluateThresholds(summary, config.thresholds) }),
+    };
+  };
+
+  // Save partial reports periodically; one save at a time
+  let lastCheckpointAt = Date.now();
+  let saving: Promise<void> | null = null;
+  const saveCheckpoint = () => {
+    if (!saving) {
+      saving = writeJsonAtomic(checkpointPath, buildReport(true)).finally(() => {
+        saving = null;
+      });
+    }
+    return saving;
+  };
+
+  // Ctrl-C saves the results completed so far and exits
+  const onSigint = async () => {
+    console.log(chalk.yellow('\nInterrupted: saving partial report...'));
+    await saving;
+    await saveCheckpoint();
+    console.log(chalk.yellow('Partial report saved:'), checkpointPath);
+    console.log(chalk.yellow('Resume with:'), `validate --resume ${checkpointPath}`);
+    process.exit(130);
+  };
+  process.once('SIGINT', onSigint);
 
   // Progress tracking
   let processed = 0;
-  const total = crawlerOutput.urls.length;
+  const total = urlsToValidate.length;
 
   // Validate each URL
-  const validationPromises = crawlerOutput.urls.map(crawledUrl =>
+  const validationPromises = urlsToValidate.map(crawledUrl =>
     limiter(async () => {
-      const result = await validateUrl(
-        crawledUrl.path,
-        crawledUrl.title,
-        config
-      );
+      const result = await validateUrl(crawledUrl, config, context);
 
       results.push(result);
       processed++;
@@ -75,59 +298,101 @@ export async function validate(config: ValidatorConfig): Promise<ValidationRepor
         );
       }
 
+      if (config.checkpointInterval > 0 && Date.now() - lastCheckpointAt >= config.checkpointInterval) {
+        lastCheckpointAt = Date.now();
+        await saveCheckpoint();
+        log(chalk.gray(`Partial report saved: ${checkpointPath}`));
+      }
+
       return result;
     })
   );
 
-  await Promise.all(validationPromises);
-
-  const durationMs = Date.now() - startTime;
-
-  // Calculate summary
-  const summary = calculateSummary(results, durationMs);
+  try {
+    await Promise.all(validationPromises);
+    await saving;
+  } finally {
+    process.off('SIGINT', onSigint);
+    await context.analyzer.close();
+  }
 
-  const report: ValidationReport = {
-    sourceUrl: crawlerOutput.sourceUrl,
-    destinationUrl: config.destinationUrl,
-    summary,
-    results: results.sort((a, b) => {
-      // Sort errors first, then warnings, then ok
-      const order = { error: 0, warning: 1, ok: 2 };
-      return order[a.status] - order[b.status];
-    }),
-    validatedAt: new Date().toISOString(),
-    config,
-  };
+  const report = buildReport(false);
+  const summary = report.summary;
 
-  // Write report
+  // Write report; the partial report is no longer needed
   await fse.writeJson(config.outputPath, report, { spaces: 2 });
+  await fse.remove(checkpointPath);
+
+  // Additional formats are written next to the JSON report
+  const extraReports = await writeReports(
+    report,
+    (config.formats ?? [])
+      .filter(format => format !== 'json')
+      .map(format => ({ format, outputPath: getReportPath(config.outputPath, format) }))
+  );
 
   // Print summary
-  printSummary(summary, config.outputPath, config);
+  printSummary(summary, [config.outputPath, ...extraReports], config);
 
   // Print errors and warnings
-  printIssues(results, config.verbose);
+  printIssues(report.results, config.verbose);
+
+  if (config.thresholds && report.verdict) {
+    printVerdict(report.verdict);
+  }
 
   return report;
 }
 
+/**
+ * Loads a validation report (complete or partial) from disk
+ */
+export async function loadValidationReport(reportPath: string): Promise<ValidationReport> {
+  const report: ValidationReport = await fse.readJson(reportPath);
+  if (!report.config || !Array.isArray(report.results)) {
+    throw new Error(`Not a validation report: ${reportPath}`);
+  }
+  return report;
+}
+
 /**
  * Validates a single URL on the destination
  */
 async function validateUrl(
-  path: string,
-  sourceTitle: string | null,
-  config: ValidatorConfig
+  crawledUrl: CrawledUrl,
+  config: ValidatorConfig,
+  context: ValidationContext
 ): Promise<ValidationResult> {
-  const destUrl = joinUrl(config.destinationUrl, path);
+  const { path, title: sourceTitle } = crawledUrl;
   const issues: ValidationIssue[] = [];
   let status: 'ok' | 'warning' | 'error' = 'ok';
 
+  // Resolve the expected destination through the mapping file, if any
+  let destUrl = joinUrl(config.destinationUrl, path);
+  let mapping: Pick<ValidationResult, 'mappingRule'> = {};
+  if (context.urlMap) {
+    const resolved = resolveMappedUrl(context.urlMap, path, config.destinationUrl);
+    destUrl = resolved.destinationUrl;
+    mapping = { mappingRule: resolved.rule };
+    if (!resolved.rule) {
+      issues.push({
+        type: 'unmapped',
+        message: 'No mapping rule covers this path (checked same path)',
+      });
+      status = 'warning';
+    }
+  }
+
   const startTime = Date.now();
   const result = await fetchUrl(destUrl, {
     timeout: config.timeout,
     retries: 1,
     followRedirects: true,
+    auth: context.auth,
+    scheduler: context.scheduler,
+    maxBodySize: config.maxBodySize,
+    // Error pages are only checked for their title
+    fullBody: 'success',
   });
   const responseTimeMs = Date.now() - startTime;
 
@@ -146,6 +411,7 @@ async function validateUrl(
       status: 'error',
       issues,
       responseTimeMs,
+      ...mapping,
     };
   }
 
@@ -168,7 +434,22 @@ async function validateUrl(
   }
 
   // Check for redirects
-  if (result.wasRedirected) {
+  const redirectHops = result.redirectChain.filter(hop => hop.location !== null);
+  const flagRedirect = () => {
+    // Only set warning if not treating redirects as OK
+    if (config.redirectHandling === 'warning') {
+      status = status === 'ok' ? 'warning' : status;
+    }
+  };
+
+  if (result.redirectLoop) {
+    issues.push({
+      type: 'redirect_loop',
+      message: `Redirect loop: ${result.redirectChain.map(hop => hop.url).join(' → ')}`,
+      details: { hops: result.redirectChain },
+    });
+    status = 'error';
+  } else if (result.wasRedirected) {
     const originalUrl = new URL(destUrl);
     const finalUrl = new URL(result.finalUrl);
 
@@ -177,33 +458,103 @@ async function validateUrl(
       issues.push({
         type: 'redirect',
         message: `Redirected to: ${finalUrl.pathname}`,
-        details: { finalUrl: result.finalUrl },
+        details: { finalUrl: result.finalUrl, hops: result.redirectChain },
       });
+      flagRedirect();
+    }
+  }
 
-      // Only set warning if not treating redirects as OK
-      if (config.redirectHandling === 'warning') {
-        status = status === 'ok' ? 'warning' : status;
-      }
+  if (!result.redirectLoop && redirectHops.length > 1) {
+    issues.push({
+      type: 'redirect_chain',
+      message: `Redirect chain of ${redirectHops.length} hops: ${redirectHops.map(hop => hop.statusCode).join(' → ')} → ${result.statusCode}`,
+      details: { hops: result.redirectChain },
+    });
+    flagRedirect();
+  }
+
+  const temporaryHops = redirectHops.filter(hop => TEMPORARY_REDIRECT_STATUSES.includes(hop.statusCode));
+  if (temporaryHops.length > 0) {
+    issues.push({
+      type: 'temporary_redirect',
+      message: `Temporary redirect (${temporaryHops.map(hop => hop.statusCode).join(', ')}) instead of 301/308`,
+      details: { hops: temporaryHops },
+    });
+    flagRedirect();
+  }
+
+  const hosts = [...new Set(result.redirectChain.map(hop => bareHost(hop.url)))];
+  if (hosts.length > 1) {
+    issues.push({
+      type: 'cross_domain_redirect',
+      message: `Redirect crosses domains: ${hosts.join(' → ')}`,
+      details: { hosts },
+    });
+    flagRedirect();
+  }
+
+  // Check whether the destination now blocks a URL that used to be crawlable
+  if (context.destinationRobots && !context.destinationRobots.isAllowed(destUrl)) {
+    const wasCrawlable = !context.sourceRobots || context.sourceRobots.isAllowed(path);
+    if (wasCrawlable) {
+      issues.push({
+        type: 'robots_disallowed',
+        message: 'Disallowed by destination robots.txt',
+        details: { matchedAgent: context.destinationRobots.matchedAgent },
+      });
+      status = 'error';
     }
   }
 
-  // Extract destination title
-  const destTitle = extractTitle(result.body);
-  const bodyText = extractBodyText(result.body);
+  // Parse the destination page once for every check below. Error pages
+  // only need their title; fingerprints are only compared when some check
+  // uses them.
+  const isSuccess = isSuccessStatus(result.statusCode);
+  const calibratedSoft = context.soft404Calibration?.probes.some(p => p.statusCode !== null && isSuccessStatus(p.statusCode));
+  const page = await context.analyzer.analyze(result.body, {
+    baseUrl: result.finalUrl,
+    selectors: isSuccess ? context.soft404Rules.selectors.map(s => s.selector) : [],
+    fingerprint: isSuccess && (!!crawledUrl.content || !!calibratedSoft),
+    parser: config.parser,
+  });
+  const destTitle = page.title;
+  // Checks on a page cut off at maxBodySize only see the part that was read
+  const bodyTruncated = isSuccess && !!result.bodyTruncated;
 
   // Check for soft 404
-  if (isSuccessStatus(result.statusCode)) {
-    const soft404Check = checkSoft404(bodyText, destTitle, result.statusCode);
+  if (isSuccess) {
+    const soft404Check = checkSoft404(page, result.statusCode, {
+      calibration: context.soft404Calibration,
+      redirectedTo: result.wasRedirected ? result.finalUrl : null,
+      rules: context.soft404Rules,
+      path: new URL(result.finalUrl).pathname,
+    });
     if (soft404Check.isSoft404) {
       issues.push({
         type: 'soft_404',
         message: `Soft 404 detected (${Math.round(soft404Check.confidence * 100)}% confidence)`,
-        details: { reasons: soft404Check.reasons },
+        details: { reasons: soft404Check.reasons, method: soft404Check.method },
       });
       status = 'error';
     }
   }
 
+  // Compare SEO metadata with the source page (crawls record it since it was added)
+  if (crawledUrl.seo && isSuccess) {
+    const destSeo = {
+      ...page.metadata,
+      xRobotsTag: result.headers['x-robots-tag'] ?? null,
+    };
+    for (const { issue, severity } of compareSeoMetadata(crawledUrl.seo, destSeo, crawledUrl.url, result.finalUrl)) {
+      issues.push(issue);
+      if (severity === 'error') {
+        status = 'error';
+      } else {
+        status = status === 'ok' ? 'warning' : status;
+      }
+    }
+  }
+
   // Check title mismatch (only if both have titles and not already an error)
   if (sourceTitle && destTitle && status !== 'error') {
     if (!titlesMatch(sourceTitle, destTitle)) {
@@ -216,6 +567,45 @@ async function validateUrl(
     }
   }
 
+  // Compare body text with the source (crawls made with --fingerprint);
+  // a cut-off page would differ from the full source text anyway
+  if (
+    crawledUrl.content &&
+    !bodyTruncated &&
+    crawledUrl.content.wordCount >= MIN_FINGERPRINT_WORDS &&
+    page.content &&
+    status !== 'error'
+  ) {
+    const destContent = page.content;
+    const similarity = compareFingerprints(crawledUrl.content, destContent);
+    const threshold = config.contentThreshold ?? DEFAULT_CONTENT_THRESHOLD;
+    if (similarity < threshold) {
+      issues.push({
+        type: 'content_mismatch',
+        message: `Body text differs from source (${Math.round(similarity * 100)}% similar, ${crawledUrl.content.wordCount} vs ${destContent.wordCount} words)`,
+        details: {
+          similarity: Math.round(similarity * 1000) / 1000,
+          threshold,
+          sourceWordCount: crawledUrl.content.wordCount,
+          destinationWordCount: destContent.wordCount,
+        },
+      });
+      status = status === 'ok' ? 'warning' : status;
+    }
+  }
+
+  // Suggest where the content of a missing page went
+  let suggestions: Pick<ValidationResult, 'suggestions'> = {};
+  if (context.suggestionIndex && issues.some(i => i.type === 'not_found' || i.type === 'soft_404')) {
+    suggestions = {
+      suggestions: await suggestDestinations(
+        crawledUrl,
+        context.suggestionIndex,
+        config.suggestionCount ?? DEFAULT_SUGGESTION_COUNT
+      ),
+    };
+  }
+
   return {
     sourcePath: path,
     sourceTitle,
@@ -225,13 +615,31 @@ async function validateUrl(
     status,
     issues,
     responseTimeMs,
+    ...mapping,
+    ...suggestions,
+    ...(bodyTruncated ? { bodyTruncated } : {}),
   };
 }
 
+/**
+ * Returns a URL's hostname without a leading www.
+ */
+function bareHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
 /**
  * Calculates summary statistics from results
  */
-function calculateSummary(results: ValidationResult[], durationMs: number): ValidationSummary {
+function calculateSummary(
+  results: ValidationResult[],
+  durationMs: number,
+  throttledCount: number
+): ValidationSummary {
   const summary: ValidationSummary = {
     totalUrls: results.length,
     okUrls: 0,
@@ -241,7 +649,21 @@ function calculateSummary(results: ValidationResult[], durationMs: number): Vali
     notFoundCount: 0,
     serverErrorCount: 0,
     titleMismatchCount: 0,
+    contentMismatchCount: 0,
     redirectCount: 0,
+    redirectChainCount: 0,
+    temporaryRedirectCount: 0,
+    crossDomainRedirectCount: 0,
+    redirectLoopCount: 0,
+    robotsDisallowedCount: 0,
+    unmappedCount: 0,
+    metaDescriptionMismatchCount: 0,
+    h1MismatchCount: 0,
+    canonicalMismatchCount: 0,
+    noindexCount: 0,
+    openGraphMismatchCount: 0,
+    hreflangMismatchCount: 0,
+    throttledCount,
     durationMs,
   };
 
@@ -272,9 +694,48 @@ function calculateSummary(results: ValidationResult[], durationMs: number): Vali
         case 'title_mismatch':
           summary.titleMismatchCount++;
           break;
+        case 'content_mismatch':
+          summary.contentMismatchCount++;
+          break;
         case 'redirect':
           summary.redirectCount++;
           break;
+        case 'redirect_chain':
+          summary.redirectChainCount++;
+          break;
+        case 'temporary_redirect':
+          summary.temporaryRedirectCount++;
+          break;
+        case 'cross_domain_redirect':
+          summary.crossDomainRedirectCount++;
+          break;
+        case 'redirect_loop':
+          summary.redirectLoopCount++;
+          break;
+        case 'robots_disallowed':
+          summary.robotsDisallowedCount++;
+          break;
+        case 'unmapped':
+          summary.unmappedCount++;
+          break;
+        case 'meta_description_mismatch':
+          summary.metaDescriptionMismatchCount++;
+          break;
+        case 'h1_mismatch':
+          summary.h1MismatchCount++;
+          break;
+        case 'canonical_mismatch':
+          summary.canonicalMismatchCount++;
+          break;
+        case 'noindex':
+          summary.noindexCount++;
+          break;
+        case 'open_graph_mismatch':
+          summary.openGraphMismatchCount++;
+          break;
+        case 'hreflang_mismatch':
+          summary.hreflangMismatchCount++;
+          break;
       }
     }
   }
@@ -285,7 +746,7 @@ function calculateSummary(results: ValidationResult[], durationMs: number): Vali
 /**
  * Prints summary to console
  */
-function printSummary(summary: ValidationSummary, outputPath: string, config: ValidatorConfig): void {
+function printSummary(summary: ValidationSummary, reportPaths: string[], config: ValidatorConfig): void {
   console.log('');
   console.log(chalk.blue('═'.repeat(60)));
   console.log(chalk.blue.bold('Validation Complete'));
@@ -300,17 +761,54 @@ function printSummary(summary: ValidationSummary, outputPath: string, config: Va
   console.log(chalk.red('  Soft 404s:'), summary.soft404Count);
   console.log(chalk.red('  Server Errors:'), summary.serverErrorCount);
   console.log(chalk.yellow('  Title Mismatches:'), summary.titleMismatchCount);
+  console.log(chalk.yellow('  Content Mismatches:'), summary.contentMismatchCount);
+  console.log(chalk.red('  Noindex on destination:'), summary.noindexCount);
+  console.log(chalk.yellow('  Canonical Mismatches:'), summary.canonicalMismatchCount);
+  console.log(chalk.yellow('  Meta Description Mismatches:'), summary.metaDescriptionMismatchCount);
+  console.log(chalk.yellow('  H1 Mismatches:'), summary.h1MismatchCount);
+  console.log(chalk.yellow('  Open Graph Mismatches:'), summary.openGraphMismatchCount);
+  console.log(chalk.yellow('  hreflang Mismatches:'), summary.hreflangMismatchCount);
+  if (config.checkRobots) {
+    console.log(chalk.red('  Disallowed by robots.txt:'), summary.robotsDisallowedCount);
+  }
+  if (config.mapPath) {
+    console.log(chalk.yellow('  Unmapped paths:'), summary.unmappedCount);
+  }
   if (config.redirectHandling === 'ok') {
     console.log(chalk.green('  Redirects (allowed):'), summary.redirectCount);
   } else {
     console.log(chalk.yellow('  Redirects:'), summary.redirectCount);
   }
+  console.log(chalk.yellow('    Chains (2+ hops):'), summary.redirectChainCount);
+  console.log(chalk.yellow('    Temporary (302/303/307):'), summary.temporaryRedirectCount);
+  console.log(chalk.yellow('    Cross-domain:'), summary.crossDomainRedirectCount);
+  console.log(chalk.red('    Loops:'), summary.redirectLoopCount);
+  if (summary.throttledCount > 0) {
+    console.log(chalk.yellow('Throttled (429/503):'), summary.throttledCount);
+  }
   console.log('');
   console.log(chalk.blue('Duration:'), formatDuration(summary.durationMs));
-  console.log(chalk.blue('Report:'), outputPath);
+  for (const reportPath of reportPaths) {
+    console.log(chalk.blue('Report:'), reportPath);
+  }
   console.log(chalk.blue('═'.repeat(60)));
 }
 
+/**
+ * Prints the threshold verdict to console
+ */
+function printVerdict(verdict: ValidationVerdict): void {
+  console.log('');
+  if (verdict.status === 'pass') {
+    console.log(chalk.green.bold('Verdict: PASS'), chalk.gray('(all thresholds met)'));
+    return;
+  }
+  console.log(chalk.red.bold('Verdict: FAIL'), chalk.gray(`(exit code ${verdict.exitCode})`));
+  for (const violation of verdict.violations) {
+    console.log(chalk.red(`  ${violation.threshold}:`), violation.message);
+  }
+}
+
 /**
  * Prints issues to console
  */
@@ -328,6 +826,10 @@ function printIssues(results: ValidationResult[], verbose: boolean): void {
       for (const issue of error.issues) {
         console.log(chalk.gray(`    - ${issue.message}`));
       }
+      const [best] = error.suggestions ?? [];
+      if (best) {
+        console.log(chalk.cyan(`    → ${best.path}`), chalk.gray(`(score ${best.score})`));
+      }
     }
     if (errors.length > maxToShow) {
       console.log(chalk.gray(`  ... and ${errors.length - maxToShow} more (use -v to see all)`));